@@ -0,0 +1,444 @@
+import {
+	ChildProcess,
+	spawn as nodeSpawn
+} from 'node:child_process';
+import {
+	Readable,
+	Writable
+} from 'node:stream';
+import {
+	pipeline
+} from 'node:stream/promises';
+import {
+	Either,
+	isLeft,
+	left,
+	right
+} from 'fp-ts/lib/Either';
+import {
+	pipe
+} from 'fp-ts/lib/function';
+import {
+	TaskEither
+} from 'fp-ts/lib/TaskEither';
+import {
+	toError
+} from './error';
+import {
+	fromAsyncIterable,
+	lines,
+	reduce
+} from './stream';
+import {
+	TaggedPatterns,
+	foldTagged
+} from './tagged';
+
+/**
+ * Output of a child process that exited successfully.
+ */
+export interface ProcessOutput {
+	readonly stdout: string;
+	readonly stderr: string;
+	/** Always `0` for a successful process. */
+	readonly exitCode: number;
+	/** Always `null` for a successful process. */
+	readonly signal: NodeJS.Signals | null;
+}
+
+/** The process could not be spawned, e.g. the command does not exist. */
+export interface SpawnError {
+	readonly _tag: 'SpawnError';
+	readonly command: string;
+	readonly error: Error;
+}
+
+/** The process exited with a non-zero exit code. */
+export interface ExitError {
+	readonly _tag: 'ExitError';
+	readonly command: string;
+	readonly exitCode: number;
+	readonly stdout: string;
+	readonly stderr: string;
+}
+
+/** The process was terminated by a signal it was not sent by this module. */
+export interface SignalError {
+	readonly _tag: 'SignalError';
+	readonly command: string;
+	readonly signal: NodeJS.Signals;
+	readonly stdout: string;
+	readonly stderr: string;
+}
+
+/** The process was killed because it ran longer than `timeout`. */
+export interface TimeoutError {
+	readonly _tag: 'TimeoutError';
+	readonly command: string;
+	readonly timeout: number;
+	readonly stdout: string;
+	readonly stderr: string;
+}
+
+/** The process was killed because `signal` was aborted. */
+export interface AbortError {
+	readonly _tag: 'AbortError';
+	readonly command: string;
+	readonly stdout: string;
+	readonly stderr: string;
+}
+
+/** Reading from or writing to the standard streams of the process failed. */
+export interface StdioError {
+	readonly _tag: 'StdioError';
+	readonly command: string;
+	readonly error: Error;
+}
+
+/**
+ * Error yielded by the child process wrappers.
+ */
+export type ChildProcessError =
+	| SpawnError
+	| ExitError
+	| SignalError
+	| TimeoutError
+	| AbortError
+	| StdioError;
+
+/**
+ * Builds a refinement for the `ChildProcessError` case identified by `tag`.
+ *
+ * @param tag Case to refine to.
+ * @returns A refinement that narrows a `ChildProcessError` to the given case.
+ */
+export const is = <T extends ChildProcessError['_tag']>(
+	tag: T
+) => (
+	e: ChildProcessError
+): e is Extract<ChildProcessError, { _tag: T }> => e._tag === tag;
+
+export const isSpawnError = is('SpawnError');
+export const isExitError = is('ExitError');
+export const isSignalError = is('SignalError');
+export const isTimeoutError = is('TimeoutError');
+export const isAbortError = is('AbortError');
+export const isStdioError = is('StdioError');
+
+/**
+ * Handlers for every case of `ChildProcessError`.
+ */
+export type Patterns<B> = TaggedPatterns<ChildProcessError, B>;
+
+/**
+ * Exhaustively pattern matches on a `ChildProcessError`.
+ */
+export const fold = <B>(
+	patterns: Patterns<B>
+): ((e: ChildProcessError) => B) => foldTagged<ChildProcessError, B>(patterns);
+
+/**
+ * Options shared by `exec`, `execFile` and `spawn`.
+ */
+export interface ExecOptions {
+	/** Current working directory of the child process. */
+	readonly cwd?: string | URL;
+	/** Environment key-value pairs, defaults to `process.env`. */
+	readonly env?: NodeJS.ProcessEnv;
+	/** Kills the process and fails with a `TimeoutError` after this many milliseconds. */
+	readonly timeout?: number;
+	/** Kills the process and fails with an `AbortError` once aborted. */
+	readonly signal?: AbortSignal;
+	/** Signal used to kill the process on timeout or abort, defaults to `'SIGTERM'`. */
+	readonly killSignal?: NodeJS.Signals | number;
+	/** Data written to the standard input of the process, which is then closed. */
+	readonly input?: string | Uint8Array;
+	/** Encoding used to decode stdout and stderr, defaults to `'utf8'`. */
+	readonly encoding?: BufferEncoding;
+}
+
+/**
+ * Options of `spawn`.
+ */
+export interface SpawnOptions extends ExecOptions {
+	/** Run the command inside of a shell, defaults to `false`. */
+	readonly shell?: boolean | string;
+	/** Sets the user identity of the process. */
+	readonly uid?: number;
+	/** Sets the group identity of the process. */
+	readonly gid?: number;
+	/** Hide the subprocess console window on Windows. */
+	readonly windowsHide?: boolean;
+}
+
+/**
+ * How a spawned process ended.
+ */
+interface Termination {
+	readonly exitCode: number | null;
+	readonly signal: NodeJS.Signals | null;
+	readonly timedOut: boolean;
+	readonly aborted: boolean;
+}
+
+const spawnChild = (
+	command: string,
+	args: ReadonlyArray<string>,
+	options: SpawnOptions
+): Either<ChildProcessError, ChildProcess> => {
+	const { timeout, signal, killSignal, input, encoding, ...spawnOptions } = options;
+	if (signal?.aborted === true) {
+		return left({ _tag: 'AbortError', command, stdout: '', stderr: '' });
+	}
+	try {
+		return right(nodeSpawn(command, args, { ...spawnOptions, stdio: 'pipe' }));
+	} catch (reason: unknown) {
+		return left({ _tag: 'SpawnError', command, error: toError(reason, "Unexpected error during spawn") });
+	}
+};
+
+/**
+ * Kills the child on timeout or abort and waits for it to end and for its stdio streams to close.
+ */
+const supervise = (
+	command: string,
+	child: ChildProcess,
+	{ timeout, signal, killSignal }: ExecOptions
+): Promise<Either<ChildProcessError, Termination>> => new Promise((resolve) => {
+	let settled = false;
+	let timedOut = false;
+	let aborted = false;
+
+	const onAbort = () => {
+		aborted = true;
+		child.kill(killSignal);
+	};
+	signal?.addEventListener('abort', onAbort, { once: true });
+	const timer = timeout === undefined ? undefined : setTimeout(() => {
+		timedOut = true;
+		child.kill(killSignal);
+	}, timeout);
+
+	const settle = (result: Either<ChildProcessError, Termination>) => {
+		if (!settled) {
+			settled = true;
+			clearTimeout(timer);
+			signal?.removeEventListener('abort', onAbort);
+			resolve(result);
+		}
+	};
+
+	child.once('error', (error: Error) => settle(left({ _tag: 'SpawnError', command, error })));
+	child.once('close', (exitCode: number | null, exitSignal: NodeJS.Signals | null) => settle(
+		right({ exitCode, signal: exitSignal, timedOut, aborted })
+	));
+});
+
+const fromTermination = (
+	command: string,
+	{ exitCode, signal, timedOut, aborted }: Termination,
+	timeout: number | undefined,
+	stdout: string,
+	stderr: string
+): Either<ChildProcessError, { exitCode: number, signal: null }> => {
+	if (timedOut) {
+		return left({ _tag: 'TimeoutError', command, timeout: timeout as number, stdout, stderr });
+	} else if (aborted) {
+		return left({ _tag: 'AbortError', command, stdout, stderr });
+	} else if (signal !== null) {
+		return left({ _tag: 'SignalError', command, signal, stdout, stderr });
+	} else if (exitCode !== 0) {
+		return left({ _tag: 'ExitError', command, exitCode: exitCode as number, stdout, stderr });
+	}
+	return right({ exitCode, signal });
+};
+
+const run = (
+	command: string,
+	args: ReadonlyArray<string>,
+	options: SpawnOptions
+): TaskEither<ChildProcessError, ProcessOutput> => async () => {
+	const spawned = spawnChild(command, args, options);
+	if (isLeft(spawned)) {
+		return spawned;
+	}
+	const child = spawned.right;
+
+	const stdoutChunks: Array<Buffer> = [];
+	const stderrChunks: Array<Buffer> = [];
+	child.stdout?.on('data', (chunk: Buffer) => stdoutChunks.push(chunk));
+	child.stderr?.on('data', (chunk: Buffer) => stderrChunks.push(chunk));
+	child.stdin?.on('error', () => undefined);
+	child.stdin?.end(options.input);
+
+	const termination = await supervise(command, child, options);
+	if (isLeft(termination)) {
+		return termination;
+	}
+	const encoding = options.encoding ?? 'utf8';
+	const stdout = Buffer.concat(stdoutChunks).toString(encoding);
+	const stderr = Buffer.concat(stderrChunks).toString(encoding);
+	const status = fromTermination(command, termination.right, options.timeout, stdout, stderr);
+	return isLeft(status) ? status : right({ stdout, stderr, ...status.right });
+};
+
+/**
+ * Spawns a shell then executes the `command` within that shell, buffering any generated output.
+ * Never pass unsanitized user input to this function: any input containing shell metacharacters
+ * may be used to trigger arbitrary command execution.
+ * @see https://nodejs.org/api/child_process.html#child_processexeccommand-options-callback
+ *
+ * @param command The command to run, with space-separated arguments.
+ * @param options Exec options.
+ * @returns TaskEither that yields the output of the process, or fails yielding a ChildProcessError.
+ */
+export const exec = (
+	command: string,
+	options: ExecOptions = {}
+): TaskEither<ChildProcessError, ProcessOutput> => run(command, [], { ...options, shell: true });
+
+/**
+ * Executes the executable `file` directly, without spawning a shell, buffering any generated output.
+ * @see https://nodejs.org/api/child_process.html#child_processexecfilefile-args-options-callback
+ *
+ * @param file The name or path of the executable file to run.
+ * @param args List of string arguments.
+ * @param options Exec options.
+ * @returns TaskEither that yields the output of the process, or fails yielding a ChildProcessError.
+ */
+export const execFile = (
+	file: string,
+	args: ReadonlyArray<string> = [],
+	options: ExecOptions = {}
+): TaskEither<ChildProcessError, ProcessOutput> => run(file, args, { ...options, shell: false });
+
+/**
+ * Spawns a new process using the given `command`, with command-line arguments in `args`, buffering
+ * any generated output.
+ * @see https://nodejs.org/api/child_process.html#child_processspawncommand-args-options
+ *
+ * @param command The command to run.
+ * @param args List of string arguments.
+ * @param options Spawn options.
+ * @returns TaskEither that yields the output of the process, or fails yielding a ChildProcessError.
+ */
+export const spawn = (
+	command: string,
+	args: ReadonlyArray<string> = [],
+	options: SpawnOptions = {}
+): TaskEither<ChildProcessError, ProcessOutput> => run(command, args, options);
+
+/**
+ * A line written by a process to one of its output streams.
+ */
+export type OutputLine =
+	| { readonly _tag: 'Stdout', readonly line: string }
+	| { readonly _tag: 'Stderr', readonly line: string };
+
+/**
+ * Options of `spawnStream`.
+ */
+export interface SpawnStreamOptions extends Omit<SpawnOptions, 'input'> {
+	/** Source of the standard input of the process, which is closed once the source ends. */
+	readonly stdin?: AsyncIterable<string | Uint8Array>;
+}
+
+/**
+ * Result of a process spawned with `spawnStream` that exited successfully.
+ */
+export interface StreamOutput<B> {
+	/** Final state of the reducer. */
+	readonly state: B;
+	/** Always `0` for a successful process. */
+	readonly exitCode: number;
+	/** Always `null` for a successful process. */
+	readonly signal: NodeJS.Signals | null;
+}
+
+/**
+ * Spawns a new process and folds its output, line by line, into a state instead of buffering it.
+ * Output is only read as fast as `f` consumes it, and `options.stdin` is only pulled as fast as the
+ * process reads it, so arbitrarily large outputs and inputs can be processed.
+ *
+ * Since output is not buffered, the `stdout` and `stderr` of a failed process are left empty in
+ * the yielded ChildProcessError.
+ * @see https://nodejs.org/api/child_process.html#child_processspawncommand-args-options
+ *
+ * @param command The command to run.
+ * @param args List of string arguments.
+ * @param b Initial state.
+ * @param f Reducer producing the next state from the current state and an output line.
+ * @param options Spawn options.
+ * @returns TaskEither that yields the final state and exit status of the process, or fails yielding
+ * a ChildProcessError.
+ */
+export const spawnStream = <B>(
+	command: string,
+	args: ReadonlyArray<string>,
+	b: B,
+	f: (b: B, line: OutputLine) => B,
+	options: SpawnStreamOptions = {}
+): TaskEither<ChildProcessError, StreamOutput<B>> => async () => {
+	const spawned = spawnChild(command, args, options);
+	if (isLeft(spawned)) {
+		return spawned;
+	}
+	const child = spawned.right;
+	const terminated = supervise(command, child, options);
+
+	const onStdioError = (reason: unknown): ChildProcessError => ({
+		_tag: 'StdioError',
+		command,
+		error: toError(reason, "Unexpected error during stdio")
+	});
+	let state = b;
+	const consume = (
+		tag: OutputLine['_tag'],
+		readable: Readable | null
+	): Promise<Either<ChildProcessError, void>> => readable === null
+		? Promise.resolve(right(undefined))
+		: pipe(
+			fromAsyncIterable<ChildProcessError, Buffer>(readable, onStdioError),
+			lines(options.encoding),
+			reduce<string, void>(undefined, (_, line) => {
+				state = f(state, { _tag: tag, line });
+			})
+		)();
+	const write = async (): Promise<Either<ChildProcessError, void>> => {
+		if (options.stdin === undefined) {
+			child.stdin?.end();
+			return right(undefined);
+		}
+		// Stop pulling input once the process is gone, even if the source never yields again.
+		const source = Readable.from(options.stdin);
+		child.once('exit', () => source.destroy());
+		try {
+			await pipeline(source, child.stdin as Writable);
+			return right(undefined);
+		} catch (reason: unknown) {
+			const code = (reason as NodeJS.ErrnoException).code;
+			if (code !== 'EPIPE' && code !== 'ERR_STREAM_PREMATURE_CLOSE') {
+				return left(onStdioError(reason));
+			}
+			// The process is free to exit without reading all of its input.
+			await terminated;
+			return right(undefined);
+		}
+	};
+
+	const [termination, ...stdio] = await Promise.all([
+		terminated,
+		consume('Stdout', child.stdout),
+		consume('Stderr', child.stderr),
+		write()
+	]);
+	if (isLeft(termination)) {
+		return termination;
+	}
+	const stdioError = stdio.find(isLeft);
+	if (stdioError !== undefined) {
+		return stdioError;
+	}
+	const status = fromTermination(command, termination.right, options.timeout, '', '');
+	return isLeft(status) ? status : right({ state, ...status.right });
+};
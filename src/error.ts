@@ -0,0 +1,11 @@
+/**
+ * Narrows a thrown value or rejection reason to an `Error`.
+ *
+ * @param error The thrown value or rejection reason.
+ * @param defaultMessage Message of the `Error` created when `error` is not one.
+ * @returns `error` if it is an `Error`, or a new `Error` with the default message.
+ */
+export const toError = (
+	error: unknown,
+	defaultMessage: string
+): Error => error instanceof Error ? error : Error(defaultMessage);
@@ -1,3 +1,43 @@
+import * as fsAtomic from './fs/atomic';
+import * as fsCallbacks from './fs/callbacks';
+import * as fsDryRun from './fs/dryRun';
+import * as fsErrors from './fs/errors';
+import * as fsFileHandle from './fs/fileHandle';
+import * as fsFileSystem from './fs/fileSystem';
+import * as fsGlob from './fs/glob';
+import * as fsHash from './fs/hash';
+import * as fsJson from './fs/json';
+import * as fsLock from './fs/lock';
+import * as fsMemory from './fs/memory';
 import * as fsPromises from './fs/promises';
+import * as fsResolve from './fs/resolve';
+import * as fsStats from './fs/stats';
+import * as fsStream from './fs/stream';
+import * as fsSync from './fs/sync';
+import * as fsSyncDir from './fs/syncDir';
+import * as fsTemp from './fs/temp';
+import * as fsWalk from './fs/walk';
+import * as fsWatch from './fs/watch';
 
-export { fsPromises };
+export {
+	fsAtomic,
+	fsCallbacks,
+	fsDryRun,
+	fsErrors,
+	fsFileHandle,
+	fsFileSystem,
+	fsGlob,
+	fsHash,
+	fsJson,
+	fsLock,
+	fsMemory,
+	fsPromises,
+	fsResolve,
+	fsStats,
+	fsStream,
+	fsSync,
+	fsSyncDir,
+	fsTemp,
+	fsWalk,
+	fsWatch
+};
@@ -0,0 +1,102 @@
+import {
+	BigIntStats,
+	Mode,
+	PathLike,
+	Stats
+} from 'node:fs';
+import {
+	randomBytes
+} from 'node:crypto';
+import {
+	fileURLToPath
+} from 'node:url';
+import {
+	pipe
+} from 'fp-ts/lib/function';
+import * as TE from 'fp-ts/lib/TaskEither';
+import {
+	TaskEither
+} from 'fp-ts/lib/TaskEither';
+import {
+	NodeFsError,
+	foldPartial
+} from './errors';
+import * as fileHandle from './fileHandle';
+import {
+	rename,
+	stat,
+	unlink,
+	withFileHandle
+} from './promises';
+
+/**
+ * Options of `writeFileAtomic`.
+ */
+export interface WriteFileAtomicOptions {
+	/** Encoding of string data, defaults to `'utf8'`. */
+	readonly encoding?: BufferEncoding;
+	/** Mode of a newly created file, defaults to `0o666` (before the process umask is applied). */
+	readonly mode?: Mode;
+	/** Give the file the mode of the file it replaces, if any, defaults to `false`. */
+	readonly preserveMode?: boolean;
+	/** Give the file the owner and group of the file it replaces, if any, defaults to `false`. */
+	readonly preserveOwnership?: boolean;
+}
+
+const temporaryPath = (
+	file: PathLike
+) => `${file instanceof URL ? fileURLToPath(file) : file.toString()}.${randomBytes(6).toString('hex')}.tmp`;
+
+/**
+ * Writes data to a file so that readers, as well as a crash, only ever observe the previous or the
+ * new contents in full, never a partially written file.
+ *
+ * The data is written to a temporary file next to `file`, flushed to the storage device and then
+ * renamed over `file`. The temporary file is removed if any step fails.
+ * Concurrent calls on the same file do not corrupt it; the last rename wins.
+ * @see https://nodejs.org/api/fs.html#fspromisesrenameoldpath-newpath
+ *
+ * @param file Path of the file to write.
+ * @param data Data to write to the file.
+ * @param options Write options.
+ * @returns TaskEither that yields `file`, or fails yielding a NodeFsError.
+ */
+export const writeFileAtomic = <T extends PathLike>(
+	file: T,
+	data: string | Uint8Array,
+	options: WriteFileAtomicOptions = {}
+): TaskEither<NodeFsError, T> => {
+	const { encoding = 'utf8', mode = 0o666, preserveMode = false, preserveOwnership = false } = options;
+
+	const replaced: TaskEither<NodeFsError, Stats | BigIntStats | undefined> = preserveMode || preserveOwnership
+		? pipe(
+			stat(file),
+			TE.orElse(foldPartial<TaskEither<NodeFsError, Stats | BigIntStats | undefined>>({ ENOENT: () => TE.right(undefined) }, TE.left))
+		)
+		: TE.right(undefined);
+
+	const write = (
+		temporary: string,
+		stats: Stats | BigIntStats | undefined
+	) => withFileHandle(temporary, 'wx', mode)((handle) => pipe(
+		fileHandle.writeFile(handle, data, { encoding }),
+		TE.chain((h) => stats !== undefined && preserveMode ? fileHandle.chmod(h, Number(stats.mode)) : TE.right(h)),
+		TE.chain((h) => stats !== undefined && preserveOwnership ? fileHandle.chown(h, Number(stats.uid), Number(stats.gid)) : TE.right(h)),
+		TE.chain(fileHandle.sync)
+	));
+
+	return pipe(
+		replaced,
+		TE.chain((stats) => {
+			const temporary = temporaryPath(file);
+			return pipe(
+				write(temporary, stats),
+				TE.chain(() => rename(temporary, file)),
+				TE.orElse((e) => pipe(
+					unlink(temporary),
+					TE.fold(() => TE.left(e), () => TE.left(e))
+				))
+			);
+		})
+	);
+};
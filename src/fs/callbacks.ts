@@ -0,0 +1,317 @@
+import * as fs from 'node:fs';
+import {
+	Mode,
+	OpenMode,
+	PathLike,
+	StatOptions,
+	Stats
+} from 'node:fs';
+import {
+	left,
+	right
+} from 'fp-ts/lib/Either';
+import {
+	pipe
+} from 'fp-ts/lib/function';
+import {
+	TaskEither,
+	bracketW,
+	map,
+	orElse
+} from 'fp-ts/lib/TaskEither';
+import {
+	NodeFsError,
+	fromUnknown,
+	isENOENT,
+	isENOTDIR
+} from './errors';
+
+/**
+ * Node.js style callback, called with an error or with the result of the operation.
+ */
+export type NodeCallback<B> = (err: NodeJS.ErrnoException | null, result: B) => void;
+
+/**
+ * Lifts a function taking a Node.js style callback as its last argument into a function returning
+ * a TaskEither.
+ * The callback's error, or an exception thrown while calling `f`, becomes the `Left`.
+ *
+ * `f` is called each time the TaskEither is run, so the result can be run more than once.
+ * Wrap overloaded Node.js functions in a lambda to pick the intended overload, e.g.
+ * `fromNodeCallback((fd: number, cb: NodeCallback<Stats>) => fs.fstat(fd, cb))`.
+ *
+ * @param f Function taking a Node.js style callback as its last argument.
+ * @param defaultMessage Message of the error used when `f` fails with something that is not an `Error`.
+ * @returns A function taking the arguments of `f` (without the callback) and returning a TaskEither
+ * that yields the callback's result, or fails yielding a NodeFsError.
+ */
+export const fromNodeCallback = <A extends ReadonlyArray<unknown>, B>(
+	f: (...args: [...A, NodeCallback<B>]) => void,
+	defaultMessage = "Unexpected error during callback"
+) => (
+	...args: A
+): TaskEither<NodeFsError, B> => () => new Promise((resolve) => {
+	try {
+		f(...args, (err: NodeJS.ErrnoException | null, result: B) => resolve(err ? left(fromUnknown(err, defaultMessage)) : right(result)));
+	} catch (reason: unknown) {
+		resolve(left(fromUnknown(reason, defaultMessage)));
+	}
+});
+
+/**
+ * Tests whether or not the given path exists.
+ * Unlike the deprecated `fs.exists`, only a missing path (`ENOENT` or `ENOTDIR`) yields `false`;
+ * any other failure, such as missing permissions, fails the TaskEither.
+ * @see https://nodejs.org/api/fs.html#fsaccesspath-mode-callback
+ *
+ * @param path Path to test.
+ * @returns TaskEither that yields whether `path` exists, or fails yielding a NodeFsError.
+ */
+export const exists = (
+	path: PathLike
+): TaskEither<NodeFsError, boolean> => pipe(
+	fromNodeCallback(
+		(cb: NodeCallback<void>) => fs.access(path, fs.constants.F_OK, cb),
+		"Unexpected error during exists"
+	)(),
+	map(() => true),
+	orElse((e) => isENOENT(e) || isENOTDIR(e) ? async () => right(false) : async () => left(e))
+);
+
+/**
+ * Asynchronous file open.
+ * See the POSIX [`open(2)`](http://man7.org/linux/man-pages/man2/open.2.html) documentation for more detail.
+ *
+ * The caller is responsible for closing the returned file descriptor, see `withFileDescriptor`.
+ * @see https://nodejs.org/api/fs.html#fsopenpath-flags-mode-callback
+ *
+ * @param path Path of file to open.
+ * @param flags See `support of file system `flags``, defaults to `'r'`.
+ * @param mode Sets the file mode (permission and sticky bits) if the file is created.
+ * @returns TaskEither that yields the file descriptor, or fails yielding a NodeFsError.
+ */
+export const open = (
+	path: PathLike,
+	flags: OpenMode = 'r',
+	mode?: Mode
+): TaskEither<NodeFsError, number> => fromNodeCallback(
+	(cb: NodeCallback<number>) => fs.open(path, flags, mode, cb),
+	"Unexpected error during open"
+)();
+
+/**
+ * Closes the file descriptor.
+ * See the POSIX [`close(2)`](http://man7.org/linux/man-pages/man2/close.2.html) documentation for more detail.
+ * @see https://nodejs.org/api/fs.html#fsclosefd-callback
+ *
+ * @param fd File descriptor to close.
+ * @returns TaskEither that yields void, or fails yielding a NodeFsError.
+ */
+export const close = (
+	fd: number
+): TaskEither<NodeFsError, void> => fromNodeCallback(
+	(cb: NodeCallback<void>) => fs.close(fd, (err) => cb(err, undefined)),
+	"Unexpected error during close"
+)();
+
+/**
+ * Opens a file descriptor for the duration of `use`, closing it once `use` completes whether it
+ * succeeded or failed.
+ * @see https://nodejs.org/api/fs.html#fsopenpath-flags-mode-callback
+ *
+ * @param path Path of file to open.
+ * @param flags See `support of file system `flags``, defaults to `'r'`.
+ * @param mode Sets the file mode (permission and sticky bits) if the file is created.
+ * @returns A function that takes the program using the file descriptor and returns a TaskEither
+ * that yields its result, or fails yielding a NodeFsError or the error of `use`.
+ */
+export const withFileDescriptor = (
+	path: PathLike,
+	flags?: OpenMode,
+	mode?: Mode
+) => <E, B>(
+	use: (fd: number) => TaskEither<E, B>
+): TaskEither<NodeFsError | E, B> => bracketW(
+	open(path, flags, mode),
+	use,
+	(fd) => close(fd)
+);
+
+/**
+ * Read data from the file specified by `fd` into `buffer`.
+ * @see https://nodejs.org/api/fs.html#fsreadfd-buffer-offset-length-position-callback
+ *
+ * @param fd File descriptor to read from.
+ * @param buffer The buffer that the data will be written to.
+ * @param offset The position in `buffer` to write the data to.
+ * @param length The number of bytes to read.
+ * @param position Specifies where to begin reading from in the file. If `null`, data will be read
+ * from the current file position, and the file position will be updated.
+ * @returns TaskEither that yields the number of bytes read and the buffer, or fails yielding a NodeFsError.
+ */
+export const read = <T extends NodeJS.ArrayBufferView>(
+	fd: number,
+	buffer: T,
+	offset: number,
+	length: number,
+	position: number | bigint | null
+): TaskEither<NodeFsError, { bytesRead: number, buffer: T }> => fromNodeCallback(
+	(cb: NodeCallback<{ bytesRead: number, buffer: T }>) => fs.read(
+		fd,
+		buffer,
+		offset,
+		length,
+		position,
+		(err, bytesRead, buffer) => cb(err, { bytesRead, buffer })
+	),
+	"Unexpected error during read"
+)();
+
+/**
+ * Write `buffer` to the file specified by `fd`.
+ * It is unsafe to use `write` multiple times on the same file without waiting for the TaskEither
+ * to complete.
+ * @see https://nodejs.org/api/fs.html#fswritefd-buffer-offset-length-position-callback
+ *
+ * @param fd File descriptor to write to.
+ * @param buffer Data to write.
+ * @param offset The part of the buffer to be written.
+ * @param length The number of bytes to write.
+ * @param position The offset from the beginning of the file where this data should be written. If
+ * `null`, the data will be written at the current position.
+ * @returns TaskEither that yields the number of bytes written and the buffer, or fails yielding a NodeFsError.
+ */
+export const write = <T extends NodeJS.ArrayBufferView>(
+	fd: number,
+	buffer: T,
+	offset?: number | null,
+	length?: number | null,
+	position?: number | null
+): TaskEither<NodeFsError, { bytesWritten: number, buffer: T }> => fromNodeCallback(
+	(cb: NodeCallback<{ bytesWritten: number, buffer: T }>) => fs.write(
+		fd,
+		buffer,
+		offset,
+		length,
+		position,
+		(err, bytesWritten, buffer) => cb(err, { bytesWritten, buffer })
+	),
+	"Unexpected error during write"
+)();
+
+/**
+ * Retrieves informations about the file specified by `fd`.
+ * @see https://nodejs.org/api/fs.html#fsfstatfd-options-callback
+ *
+ * @param fd File descriptor to stat.
+ * @param options Stat options.
+ * @returns TaskEither that yields the Stats, or fails yielding a NodeFsError.
+ */
+export const fstat = (
+	fd: number,
+	options?: StatOptions & { bigint?: false }
+): TaskEither<NodeFsError, Stats> => fromNodeCallback(
+	(cb: NodeCallback<Stats>) => fs.fstat(fd, options, cb),
+	"Unexpected error during fstat"
+)();
+
+/**
+ * Request that all data for the open file descriptor is flushed to the storage device.
+ * Refer to the POSIX [`fsync(2)`](http://man7.org/linux/man-pages/man2/fsync.2.html) documentation
+ * for more detail.
+ * @see https://nodejs.org/api/fs.html#fsfsyncfd-callback
+ *
+ * @param fd File descriptor to flush.
+ * @returns TaskEither that yields the file descriptor, or fails yielding a NodeFsError.
+ */
+export const fsync = (
+	fd: number
+): TaskEither<NodeFsError, number> => fromNodeCallback(
+	(cb: NodeCallback<number>) => fs.fsync(fd, (err) => cb(err, fd)),
+	"Unexpected error during fsync"
+)();
+
+/**
+ * Forces all currently queued I/O operations associated with the file to the operating system's
+ * synchronized I/O completion state.
+ * Refer to the POSIX [`fdatasync(2)`](http://man7.org/linux/man-pages/man2/fdatasync.2.html)
+ * documentation for more detail.
+ * @see https://nodejs.org/api/fs.html#fsfdatasyncfd-callback
+ *
+ * @param fd File descriptor to flush.
+ * @returns TaskEither that yields the file descriptor, or fails yielding a NodeFsError.
+ */
+export const fdatasync = (
+	fd: number
+): TaskEither<NodeFsError, number> => fromNodeCallback(
+	(cb: NodeCallback<number>) => fs.fdatasync(fd, (err) => cb(err, fd)),
+	"Unexpected error during fdatasync"
+)();
+
+/**
+ * Truncates the file specified by `fd` to `length` bytes.
+ * @see https://nodejs.org/api/fs.html#fsftruncatefd-len-callback
+ *
+ * @param fd File descriptor to truncate.
+ * @param length Number of bytes.
+ * @returns TaskEither that yields the file descriptor, or fails yielding a NodeFsError.
+ */
+export const ftruncate = (
+	fd: number,
+	length?: number
+): TaskEither<NodeFsError, number> => fromNodeCallback(
+	(cb: NodeCallback<number>) => fs.ftruncate(fd, length, (err) => cb(err, fd)),
+	"Unexpected error during ftruncate"
+)();
+
+/**
+ * Sets the permissions on the file specified by `fd`.
+ * @see https://nodejs.org/api/fs.html#fsfchmodfd-mode-callback
+ *
+ * @param fd File descriptor to change permissions of.
+ * @param mode Numerical bitmask [`File modes`](https://nodejs.org/api/fs.html#file-modes)
+ * @returns TaskEither that yields the file descriptor, or fails yielding a NodeFsError.
+ */
+export const fchmod = (
+	fd: number,
+	mode: Mode
+): TaskEither<NodeFsError, number> => fromNodeCallback(
+	(cb: NodeCallback<number>) => fs.fchmod(fd, mode, (err) => cb(err, fd)),
+	"Unexpected error during fchmod"
+)();
+
+/**
+ * Sets the owner of the file specified by `fd`.
+ * @see https://nodejs.org/api/fs.html#fsfchownfd-uid-gid-callback
+ *
+ * @param fd File descriptor to change ownership of.
+ * @param uid Integer that denotes the user id that corresponds to the owner to be set.
+ * @param gid Integer that denotes the group id that corresponds to the group to be set.
+ * @returns TaskEither that yields the file descriptor, or fails yielding a NodeFsError.
+ */
+export const fchown = (
+	fd: number,
+	uid: number,
+	gid: number
+): TaskEither<NodeFsError, number> => fromNodeCallback(
+	(cb: NodeCallback<number>) => fs.fchown(fd, uid, gid, (err) => cb(err, fd)),
+	"Unexpected error during fchown"
+)();
+
+/**
+ * Change the file system timestamps of the file specified by `fd`.
+ * @see https://nodejs.org/api/fs.html#fsfutimesfd-atime-mtime-callback
+ *
+ * @param fd File descriptor to change access and modification times of.
+ * @param atime Access time.
+ * @param mtime Modification time.
+ * @returns TaskEither that yields the file descriptor, or fails yielding a NodeFsError.
+ */
+export const futimes = (
+	fd: number,
+	atime: string | number | Date,
+	mtime: string | number | Date
+): TaskEither<NodeFsError, number> => fromNodeCallback(
+	(cb: NodeCallback<number>) => fs.futimes(fd, atime, mtime, (err) => cb(err, fd)),
+	"Unexpected error during futimes"
+)();
@@ -0,0 +1,264 @@
+import {
+	pipe
+} from 'fp-ts/lib/function';
+import * as RTE from 'fp-ts/lib/ReaderTaskEither';
+import * as TE from 'fp-ts/lib/TaskEither';
+import {
+	TaskEither
+} from 'fp-ts/lib/TaskEither';
+import {
+	NodeFsError
+} from './errors';
+import {
+	FileSystem,
+	FsProgram,
+	nodeFileSystem
+} from './fileSystem';
+import {
+	TaggedPatterns,
+	foldTagged
+} from '../tagged';
+
+export interface WriteFile {
+	readonly _tag: 'WriteFile';
+	readonly path: string;
+	readonly data: Buffer;
+}
+
+export interface AppendFile {
+	readonly _tag: 'AppendFile';
+	readonly path: string;
+	readonly data: Buffer;
+}
+
+export interface Mkdir {
+	readonly _tag: 'Mkdir';
+	readonly path: string;
+	readonly recursive: boolean;
+}
+
+export interface Rm {
+	readonly _tag: 'Rm';
+	readonly path: string;
+	readonly recursive: boolean;
+	readonly force: boolean;
+}
+
+export interface Rmdir {
+	readonly _tag: 'Rmdir';
+	readonly path: string;
+}
+
+export interface Unlink {
+	readonly _tag: 'Unlink';
+	readonly path: string;
+}
+
+export interface Rename {
+	readonly _tag: 'Rename';
+	readonly oldPath: string;
+	readonly newPath: string;
+}
+
+export interface CopyFile {
+	readonly _tag: 'CopyFile';
+	readonly src: string;
+	readonly dest: string;
+}
+
+export interface Cp {
+	readonly _tag: 'Cp';
+	readonly src: string;
+	readonly dest: string;
+	readonly recursive: boolean;
+}
+
+export interface Symlink {
+	readonly _tag: 'Symlink';
+	readonly target: string;
+	readonly path: string;
+}
+
+export interface Chmod {
+	readonly _tag: 'Chmod';
+	readonly path: string;
+	readonly mode: number;
+}
+
+/**
+ * A mutation of the file system, as requested by a program run by `dryRun`.
+ */
+export type FsOperation =
+	| WriteFile
+	| AppendFile
+	| Mkdir
+	| Rm
+	| Rmdir
+	| Unlink
+	| Rename
+	| CopyFile
+	| Cp
+	| Symlink
+	| Chmod;
+
+/**
+ * Handlers for every case of `FsOperation`.
+ */
+export type Patterns<B> = TaggedPatterns<FsOperation, B>;
+
+/**
+ * Exhaustively pattern matches on an `FsOperation`.
+ */
+export const fold = <B>(
+	patterns: Patterns<B>
+): ((op: FsOperation) => B) => foldTagged<FsOperation, B>(patterns);
+
+const record = <A>(
+	log: Array<FsOperation>,
+	op: FsOperation,
+	a: A
+): TaskEither<NodeFsError, A> => TE.fromIO(() => {
+	log.push(op);
+	return a;
+});
+
+/**
+ * Wraps a `FileSystem` so that reads are passed through, while mutations are appended to `log`
+ * instead of being performed, and succeed with the value the operation would have yielded.
+ *
+ * @param fs FileSystem serving the reads.
+ * @param log Array the requested mutations are appended to.
+ * @returns The recording FileSystem.
+ */
+export const recordingFileSystem = (
+	fs: FileSystem,
+	log: Array<FsOperation>
+): FileSystem => ({
+	readFile: fs.readFile,
+	readdir: fs.readdir,
+	stat: fs.stat,
+	lstat: fs.lstat,
+	readLink: fs.readLink,
+	realpath: fs.realpath,
+	writeFile: (path, data) => record(log, { _tag: 'WriteFile', path, data: Buffer.from(data) }, path),
+	appendFile: (path, data) => record(log, { _tag: 'AppendFile', path, data: Buffer.from(data) }, path),
+	mkdir: (path, options = {}) => record(log, { _tag: 'Mkdir', path, recursive: options.recursive === true }, path),
+	rm: (path, options = {}) => record(log, { _tag: 'Rm', path, recursive: options.recursive === true, force: options.force === true }, undefined),
+	rmdir: (path) => record(log, { _tag: 'Rmdir', path }, undefined),
+	unlink: (path) => record(log, { _tag: 'Unlink', path }, undefined),
+	rename: (oldPath, newPath) => record(log, { _tag: 'Rename', oldPath, newPath }, newPath),
+	copyFile: (src, dest) => record(log, { _tag: 'CopyFile', src, dest }, dest),
+	cp: (src, dest, options = {}) => record(log, { _tag: 'Cp', src, dest, recursive: options.recursive === true }, dest),
+	symlink: (target, path) => record(log, { _tag: 'Symlink', target, path }, path),
+	chmod: (path, mode) => record(log, { _tag: 'Chmod', path, mode }, path)
+});
+
+/**
+ * Outcome of a dry run.
+ */
+export interface DryRunResult<A> {
+	/** Result of the program. */
+	readonly result: A;
+	/** Mutations requested by the program, in the order they were requested. */
+	readonly operations: ReadonlyArray<FsOperation>;
+}
+
+/**
+ * Runs a program without modifying the file system: reads are served by `fs`, mutations are
+ * recorded instead of being performed.
+ * Reads do not observe the recorded mutations, e.g. a file written by the program does not exist
+ * when it is read back, so programs that read their own writes may behave differently than when
+ * run for real.
+ *
+ * @param program Program to run.
+ * @param fs FileSystem serving the reads, defaults to `nodeFileSystem`.
+ * @returns TaskEither that yields the result of the program along with the mutations it requested,
+ * or fails yielding the error of the program.
+ */
+export const dryRun = <E, A>(
+	program: FsProgram<E, A>,
+	fs: FileSystem = nodeFileSystem
+): TaskEither<E, DryRunResult<A>> => pipe(
+	TE.fromIO<Array<FsOperation>, E>(() => []),
+	TE.chain((log) => pipe(
+		program(recordingFileSystem(fs, log)),
+		TE.map((result) => ({ result, operations: log }))
+	))
+);
+
+const quote = (
+	path: string
+) => /^[\w./-]+$/.test(path) ? path : `'${path.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * Describes an operation as the equivalent shell command, e.g. `mkdir -p out/assets`.
+ *
+ * @param op Operation to describe.
+ * @returns The description.
+ */
+export const describe = fold<string>({
+	WriteFile: ({ path, data }) => `write ${quote(path)} (${data.length} bytes)`,
+	AppendFile: ({ path, data }) => `append ${quote(path)} (${data.length} bytes)`,
+	Mkdir: ({ path, recursive }) => `mkdir ${recursive ? '-p ' : ''}${quote(path)}`,
+	Rm: ({ path, recursive, force }) => `rm ${recursive || force ? `-${recursive ? 'r' : ''}${force ? 'f' : ''} ` : ''}${quote(path)}`,
+	Rmdir: ({ path }) => `rmdir ${quote(path)}`,
+	Unlink: ({ path }) => `unlink ${quote(path)}`,
+	Rename: ({ oldPath, newPath }) => `mv ${quote(oldPath)} ${quote(newPath)}`,
+	CopyFile: ({ src, dest }) => `cp ${quote(src)} ${quote(dest)}`,
+	Cp: ({ src, dest, recursive }) => `cp ${recursive ? '-r ' : ''}${quote(src)} ${quote(dest)}`,
+	Symlink: ({ target, path }) => `ln -s ${quote(target)} ${quote(path)}`,
+	Chmod: ({ path, mode }) => `chmod ${mode.toString(8).padStart(3, '0')} ${quote(path)}`
+});
+
+/**
+ * Describes operations as a plan, one operation per line.
+ *
+ * @param operations Operations to describe.
+ * @returns The plan.
+ */
+export const toPlan = (
+	operations: ReadonlyArray<FsOperation>
+): string => operations.map(describe).join('\n');
+
+/**
+ * Performs a single operation.
+ *
+ * @param op Operation to perform.
+ * @returns FsProgram that yields void once the operation is performed, or fails yielding a
+ * NodeFsError.
+ */
+export const apply = (
+	op: FsOperation
+): FsProgram<NodeFsError, void> => (fs) => pipe(
+	op,
+	fold<TaskEither<NodeFsError, unknown>>({
+		WriteFile: ({ path, data }) => fs.writeFile(path, data),
+		AppendFile: ({ path, data }) => fs.appendFile(path, data),
+		Mkdir: ({ path, recursive }) => fs.mkdir(path, { recursive }),
+		Rm: ({ path, recursive, force }) => fs.rm(path, { recursive, force }),
+		Rmdir: ({ path }) => fs.rmdir(path),
+		Unlink: ({ path }) => fs.unlink(path),
+		Rename: ({ oldPath, newPath }) => fs.rename(oldPath, newPath),
+		CopyFile: ({ src, dest }) => fs.copyFile(src, dest),
+		Cp: ({ src, dest, recursive }) => fs.cp(src, dest, { recursive }),
+		Symlink: ({ target, path }) => fs.symlink(target, path),
+		Chmod: ({ path, mode }) => fs.chmod(path, mode)
+	}),
+	TE.map(() => undefined)
+);
+
+/**
+ * Performs operations in order, e.g. those recorded by `dryRun` once the plan is approved.
+ * Stops at the first failure; the preceding operations are not undone.
+ *
+ * @param operations Operations to perform.
+ * @returns FsProgram that yields void once every operation is performed, or fails yielding a
+ * NodeFsError.
+ */
+export const replay = (
+	operations: ReadonlyArray<FsOperation>
+): FsProgram<NodeFsError, void> => pipe(
+	operations,
+	RTE.traverseSeqArray(apply),
+	RTE.map(() => undefined)
+);
@@ -0,0 +1,178 @@
+import {
+	toError
+} from '../error';
+import {
+	TaggedPatterns,
+	foldTagged,
+	foldTaggedPartial
+} from '../tagged';
+
+/**
+ * The errno codes that are given their own case in `NodeFsError`.
+ * Any other code is represented by the `Unknown` case, which still carries the original `code`.
+ */
+export type NodeFsErrorCode =
+	| 'ENOENT'
+	| 'EACCES'
+	| 'EEXIST'
+	| 'ENOTDIR'
+	| 'EISDIR'
+	| 'ENOTEMPTY'
+	| 'EPERM';
+
+/**
+ * Fields Node.js attaches to the errors of failed file system operations.
+ * @see https://nodejs.org/api/errors.html#class-systemerror
+ */
+interface NodeFsErrorFields {
+	/** Human readable description of the error. */
+	readonly message: string;
+	/** String error code, e.g. `'ENOENT'`. */
+	readonly code?: string;
+	/** Negative system error number. */
+	readonly errno?: number;
+	/** Name of the system call that failed. */
+	readonly syscall?: string;
+	/** File path involved in the failed operation. */
+	readonly path?: string;
+	/** Destination path of the failed operation (e.g. `rename`, `link`, `copyFile`). */
+	readonly dest?: string;
+	/** The original error, kept for its stack trace. */
+	readonly error: Error;
+}
+
+/** No such file or directory. */
+export interface ENOENT extends NodeFsErrorFields {
+	readonly _tag: 'ENOENT';
+}
+
+/** Permission denied. */
+export interface EACCES extends NodeFsErrorFields {
+	readonly _tag: 'EACCES';
+}
+
+/** File exists. */
+export interface EEXIST extends NodeFsErrorFields {
+	readonly _tag: 'EEXIST';
+}
+
+/** A component of the path is not a directory. */
+export interface ENOTDIR extends NodeFsErrorFields {
+	readonly _tag: 'ENOTDIR';
+}
+
+/** The operation expected a file, but the path is a directory. */
+export interface EISDIR extends NodeFsErrorFields {
+	readonly _tag: 'EISDIR';
+}
+
+/** Directory not empty. */
+export interface ENOTEMPTY extends NodeFsErrorFields {
+	readonly _tag: 'ENOTEMPTY';
+}
+
+/** Operation not permitted. */
+export interface EPERM extends NodeFsErrorFields {
+	readonly _tag: 'EPERM';
+}
+
+/** Any other failure, including errors that are not system errors at all. */
+export interface Unknown extends NodeFsErrorFields {
+	readonly _tag: 'Unknown';
+}
+
+/**
+ * Error yielded by the file system wrappers.
+ * Discriminated by `_tag` so callers can recover from specific failures without inspecting
+ * `message`.
+ */
+export type NodeFsError =
+	| ENOENT
+	| EACCES
+	| EEXIST
+	| ENOTDIR
+	| EISDIR
+	| ENOTEMPTY
+	| EPERM
+	| Unknown;
+
+const nodeFsErrorCodes: ReadonlyArray<string> = [
+	'ENOENT',
+	'EACCES',
+	'EEXIST',
+	'ENOTDIR',
+	'EISDIR',
+	'ENOTEMPTY',
+	'EPERM'
+];
+
+const isNodeFsErrorCode = (
+	code: string | undefined
+): code is NodeFsErrorCode => code !== undefined && nodeFsErrorCodes.includes(code);
+
+/**
+ * Converts a rejection reason into a `NodeFsError`, keeping the errno fields Node.js attached.
+ *
+ * @param reason The thrown value or rejection reason.
+ * @param defaultMessage Message used when `reason` is not an `Error`.
+ * @returns The `NodeFsError` case matching the error's `code`, or `Unknown`.
+ */
+export const fromUnknown = (
+	reason: unknown,
+	defaultMessage: string
+): NodeFsError => {
+	const error = toError(reason, defaultMessage);
+	const { code, errno, syscall, path, dest } = error as NodeJS.ErrnoException & { dest?: string };
+	const fields: NodeFsErrorFields = { message: error.message, code, errno, syscall, path, dest, error };
+
+	return isNodeFsErrorCode(code)
+		? { _tag: code, ...fields } as NodeFsError
+		: { _tag: 'Unknown', ...fields };
+};
+
+/**
+ * Builds a refinement for the `NodeFsError` case identified by `tag`.
+ *
+ * @param tag Case to refine to.
+ * @returns A refinement that narrows a `NodeFsError` to the given case.
+ */
+export const is = <T extends NodeFsError['_tag']>(
+	tag: T
+) => (
+	e: NodeFsError
+): e is Extract<NodeFsError, { _tag: T }> => e._tag === tag;
+
+export const isENOENT = is('ENOENT');
+export const isEACCES = is('EACCES');
+export const isEEXIST = is('EEXIST');
+export const isENOTDIR = is('ENOTDIR');
+export const isEISDIR = is('EISDIR');
+export const isENOTEMPTY = is('ENOTEMPTY');
+export const isEPERM = is('EPERM');
+export const isUnknown = is('Unknown');
+
+/**
+ * Handlers for every case of `NodeFsError`.
+ */
+export type Patterns<B> = TaggedPatterns<NodeFsError, B>;
+
+/**
+ * Exhaustively pattern matches on a `NodeFsError`.
+ */
+export const fold = <B>(
+	patterns: Patterns<B>
+): ((e: NodeFsError) => B) => foldTagged<NodeFsError, B>(patterns);
+
+/**
+ * Pattern matches on some cases of a `NodeFsError`, falling back to `otherwise` for the rest.
+ * Useful with `TaskEither.orElse` to recover from specific failures, e.g.
+ * `orElse(foldPartial({ ENOENT: () => right(defaults) }, left))`.
+ *
+ * @param patterns Handlers for the cases of interest.
+ * @param otherwise Handler for every case not in `patterns`.
+ * @returns A function that runs the matching handler for the given error.
+ */
+export const foldPartial = <B>(
+	patterns: Partial<Patterns<B>>,
+	otherwise: (e: NodeFsError) => B
+): ((e: NodeFsError) => B) => foldTaggedPartial<NodeFsError, B>(patterns, otherwise);
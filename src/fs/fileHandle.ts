@@ -0,0 +1,262 @@
+import {
+	BigIntStats,
+	Mode,
+	ObjectEncodingOptions,
+	OpenMode,
+	StatOptions,
+	Stats
+} from 'node:fs';
+import {
+	FileHandle,
+	FileReadResult,
+	FlagAndOpenMode
+} from 'node:fs/promises';
+import {
+	Abortable
+} from 'node:events';
+import {
+	TaskEither,
+	tryCatch
+} from 'fp-ts/lib/TaskEither';
+import {
+	NodeFsError,
+	fromUnknown
+} from './errors';
+
+/**
+ * Reads data from the file and stores that in the given buffer.
+ * If the file is not modified concurrently, the end-of-file is reached when the number of bytes
+ * read is zero.
+ * @see https://nodejs.org/api/fs.html#filehandlereadbuffer-offset-length-position
+ *
+ * @param handle FileHandle to read from.
+ * @param buffer A buffer that will be filled with the file data read.
+ * @param offset The location in the buffer at which to start filling.
+ * @param length The number of bytes to read.
+ * @param position The location where to begin reading data from the file. If `null`, data will be
+ * read from the current file position, and the position will be updated.
+ * @returns TaskEither that yields the number of bytes read and the buffer, or fails yielding a NodeFsError.
+ */
+export const read = <T extends NodeJS.ArrayBufferView>(
+	handle: FileHandle,
+	buffer: T,
+	offset?: number | null,
+	length?: number | null,
+	position?: number | null
+): TaskEither<NodeFsError, FileReadResult<T>> => tryCatch(
+	() => handle.read(buffer, offset, length, position),
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during read")
+);
+
+/**
+ * Write `buffer` to the file.
+ * It is unsafe to call `write` multiple times on the same file without waiting for the
+ * TaskEither to complete.
+ * @see https://nodejs.org/api/fs.html#filehandlewritebuffer-offset-length-position
+ *
+ * @param handle FileHandle to write to.
+ * @param buffer Data to write.
+ * @param offset The start position from within `buffer` where the data to write begins.
+ * @param length The number of bytes from `buffer` to write.
+ * @param position The offset from the beginning of the file where the data from `buffer` should
+ * be written. If `position` is not a `number`, the data will be written at the current position.
+ * @returns TaskEither that yields the number of bytes written and the buffer, or fails yielding a NodeFsError.
+ */
+export const write = <T extends Uint8Array>(
+	handle: FileHandle,
+	buffer: T,
+	offset?: number | null,
+	length?: number | null,
+	position?: number | null
+): TaskEither<NodeFsError, { bytesWritten: number, buffer: T }> => tryCatch(
+	() => handle.write(buffer, offset, length, position),
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during write")
+);
+
+/**
+ * Asynchronously reads the entire contents of a file.
+ * If one or more `read` calls were made on the file handle, the contents are read from the current
+ * position till the end of the file.
+ * @see https://nodejs.org/api/fs.html#filehandlereadfileoptions
+ *
+ * @param handle FileHandle to read from.
+ * @param options Read file options.
+ * @returns TaskEither that yields the contents of the file (a string if an encoding is specified, a Buffer otherwise), or fails yielding a NodeFsError.
+ */
+export function readFile(
+	handle: FileHandle,
+	options?: { encoding?: null, flag?: OpenMode } | null
+): TaskEither<NodeFsError, Buffer>;
+export function readFile(
+	handle: FileHandle,
+	options: { encoding: BufferEncoding, flag?: OpenMode } | BufferEncoding
+): TaskEither<NodeFsError, string>;
+export function readFile(
+	handle: FileHandle,
+	options?: (ObjectEncodingOptions & { flag?: OpenMode }) | BufferEncoding | null
+): TaskEither<NodeFsError, string | Buffer>;
+export function readFile(
+	handle: FileHandle,
+	options?: (ObjectEncodingOptions & { flag?: OpenMode }) | BufferEncoding | null
+): TaskEither<NodeFsError, string | Buffer> {
+	return tryCatch(
+		() => handle.readFile(options),
+		(reason: unknown) => fromUnknown(reason, "Unexpected error during readFile")
+	);
+}
+
+/**
+ * Asynchronously writes data to a file, replacing the file if it already exists.
+ * If one or more `write` calls were made on the file handle, data is written from the current
+ * position till the end of the file.
+ * @see https://nodejs.org/api/fs.html#filehandlewritefiledata-options
+ *
+ * @param handle FileHandle to write to.
+ * @param data Data to write to the file.
+ * @param options Write options.
+ * @returns TaskEither that yields the handle, or fails yielding a NodeFsError.
+ */
+export const writeFile = (
+	handle: FileHandle,
+	data: string | Uint8Array,
+	options?: (ObjectEncodingOptions & FlagAndOpenMode & Abortable) | BufferEncoding
+): TaskEither<NodeFsError, FileHandle> => tryCatch(
+	() => handle.writeFile(data, options).then(() => handle),
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during writeFile")
+);
+
+/**
+ * Retrieves informations about the opened file.
+ * @see https://nodejs.org/api/fs.html#filehandlestatoptions
+ *
+ * @param handle FileHandle to stat.
+ * @param options Stat options.
+ * @returns TaskEither that yields the Stats, or fails yielding a NodeFsError.
+ */
+export const stat = (
+	handle: FileHandle,
+	options?: (StatOptions & { bigint?: false })
+): TaskEither<NodeFsError, Stats | BigIntStats> => tryCatch(
+	() => handle.stat(options),
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during stat")
+);
+
+/**
+ * Truncates the file.
+ * If the file was larger than `length` bytes, only the first `length` bytes will be retained in
+ * the file. If it was shorter, it is extended with null bytes (`'\0'`).
+ * @see https://nodejs.org/api/fs.html#filehandletruncatelen
+ *
+ * @param handle FileHandle to truncate.
+ * @param length Number of bytes.
+ * @returns TaskEither that yields the handle, or fails yielding a NodeFsError.
+ */
+export const truncate = (
+	handle: FileHandle,
+	length?: number
+): TaskEither<NodeFsError, FileHandle> => tryCatch(
+	() => handle.truncate(length).then(() => handle),
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during truncate")
+);
+
+/**
+ * Request that all data for the open file descriptor is flushed to the storage device.
+ * Refer to the POSIX [`fsync(2)`](http://man7.org/linux/man-pages/man2/fsync.2.html) documentation
+ * for more detail.
+ * @see https://nodejs.org/api/fs.html#filehandlesync
+ *
+ * @param handle FileHandle to flush.
+ * @returns TaskEither that yields the handle, or fails yielding a NodeFsError.
+ */
+export const sync = (
+	handle: FileHandle
+): TaskEither<NodeFsError, FileHandle> => tryCatch(
+	() => handle.sync().then(() => handle),
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during sync")
+);
+
+/**
+ * Forces all currently queued I/O operations associated with the file to the operating system's
+ * synchronized I/O completion state.
+ * Unlike `sync` this method does not flush modified metadata.
+ * Refer to the POSIX [`fdatasync(2)`](http://man7.org/linux/man-pages/man2/fdatasync.2.html)
+ * documentation for more detail.
+ * @see https://nodejs.org/api/fs.html#filehandledatasync
+ *
+ * @param handle FileHandle to flush.
+ * @returns TaskEither that yields the handle, or fails yielding a NodeFsError.
+ */
+export const datasync = (
+	handle: FileHandle
+): TaskEither<NodeFsError, FileHandle> => tryCatch(
+	() => handle.datasync().then(() => handle),
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during datasync")
+);
+
+/**
+ * Modifies the permissions on the file.
+ * See the POSIX [`chmod(2)`](https://man7.org/linux/man-pages/man2/chmod.2.html) documentation for more detail.
+ * @see https://nodejs.org/api/fs.html#filehandlechmodmode
+ *
+ * @param handle FileHandle to change permissions of.
+ * @param mode Numerical bitmask [`File modes`](https://nodejs.org/api/fs.html#file-modes)
+ * @returns TaskEither that yields the handle, or fails yielding a NodeFsError.
+ */
+export const chmod = (
+	handle: FileHandle,
+	mode: Mode
+): TaskEither<NodeFsError, FileHandle> => tryCatch(
+	() => handle.chmod(mode).then(() => handle),
+	(reason: unknown) => fromUnknown(reason, "Unexpected error while performing chmod")
+);
+
+/**
+ * Changes the ownership of the file.
+ * See the POSIX [`chown(2)`](http://man7.org/linux/man-pages/man2/chown.2.html) documentation for more detail.
+ * @see https://nodejs.org/api/fs.html#filehandlechownuid-gid
+ *
+ * @param handle FileHandle to change ownership of.
+ * @param uid Integer that denotes the user id that corresponds to the owner to be set.
+ * @param gid Integer that denotes the group id that corresponds to the group to be set.
+ * @returns TaskEither that yields the handle, or fails yielding a NodeFsError.
+ */
+export const chown = (
+	handle: FileHandle,
+	uid: number,
+	gid: number
+): TaskEither<NodeFsError, FileHandle> => tryCatch(
+	() => handle.chown(uid, gid).then(() => handle),
+	(reason: unknown) => fromUnknown(reason, "Unexpected error while performing chown")
+);
+
+/**
+ * Change the file system timestamps of the file.
+ * @see https://nodejs.org/api/fs.html#filehandleutimesatime-mtime
+ *
+ * @param handle FileHandle to change access and modification times of.
+ * @param atime Access time.
+ * @param mtime Modification time.
+ * @returns TaskEither that yields the handle, or fails yielding a NodeFsError.
+ */
+export const utimes = (
+	handle: FileHandle,
+	atime: string | number | Date,
+	mtime: string | number | Date
+): TaskEither<NodeFsError, FileHandle> => tryCatch(
+	() => handle.utimes(atime, mtime).then(() => handle),
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during utimes")
+);
+
+/**
+ * Closes the file handle after waiting for any pending operation on the handle to complete.
+ * @see https://nodejs.org/api/fs.html#filehandleclose
+ *
+ * @param handle FileHandle to close.
+ * @returns TaskEither that yields void, or fails yielding a NodeFsError.
+ */
+export const close = (
+	handle: FileHandle
+): TaskEither<NodeFsError, void> => tryCatch(
+	() => handle.close(),
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during close")
+);
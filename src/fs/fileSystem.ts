@@ -0,0 +1,168 @@
+import {
+	pipe
+} from 'fp-ts/lib/function';
+import {
+	ReaderTaskEither
+} from 'fp-ts/lib/ReaderTaskEither';
+import * as TE from 'fp-ts/lib/TaskEither';
+import {
+	TaskEither
+} from 'fp-ts/lib/TaskEither';
+import {
+	NodeFsError,
+	isENOENT,
+	isENOTDIR
+} from './errors';
+import * as fsPromises from './promises';
+import {
+	FileInfo,
+	fileInfo,
+	linkInfo
+} from './stats';
+
+/**
+ * Options of `FileSystem.mkdir`.
+ */
+export interface MkdirOptions {
+	/** Create missing parent directories, and succeed if the directory exists, defaults to `false`. */
+	readonly recursive?: boolean;
+}
+
+/**
+ * Options of `FileSystem.rm`.
+ */
+export interface RmOptions {
+	/** Remove directories and their contents, defaults to `false`. */
+	readonly recursive?: boolean;
+	/** Succeed if the path does not exist, defaults to `false`. */
+	readonly force?: boolean;
+}
+
+/**
+ * Options of `FileSystem.cp`.
+ */
+export interface CpOptions {
+	/** Copy directories and their contents, defaults to `false`. */
+	readonly recursive?: boolean;
+}
+
+/**
+ * The file system operations a program depends on, so that it can run against the disk through
+ * `nodeFileSystem` or against memory through `fsMemory.memoryFileSystem`.
+ * Every operation fails with the same `NodeFsError` Node.js would, e.g. `ENOENT` for a missing
+ * path.
+ */
+export interface FileSystem {
+	/** Reads the whole contents of a file, following symbolic links. */
+	readonly readFile: (path: string) => TaskEither<NodeFsError, Buffer>;
+	/** Lists the names of the entries of a directory, excluding `.` and `..`. */
+	readonly readdir: (path: string) => TaskEither<NodeFsError, ReadonlyArray<string>>;
+	/** Gets the type and metadata of an entry, following symbolic links. */
+	readonly stat: (path: string) => TaskEither<NodeFsError, FileInfo>;
+	/** Gets the type and metadata of an entry, describing a symbolic link itself. */
+	readonly lstat: (path: string) => TaskEither<NodeFsError, FileInfo>;
+	/** Reads the target of a symbolic link. */
+	readonly readLink: (path: string) => TaskEither<NodeFsError, string>;
+	/** Resolves a path to an absolute path without symbolic links, `.` or `..` segments. */
+	readonly realpath: (path: string) => TaskEither<NodeFsError, string>;
+	/** Replaces the contents of a file, creating it if needed, and yields its path. */
+	readonly writeFile: (path: string, data: string | Uint8Array) => TaskEither<NodeFsError, string>;
+	/** Appends to the contents of a file, creating it if needed, and yields its path. */
+	readonly appendFile: (path: string, data: string | Uint8Array) => TaskEither<NodeFsError, string>;
+	/** Creates a directory and yields its path. */
+	readonly mkdir: (path: string, options?: MkdirOptions) => TaskEither<NodeFsError, string>;
+	/** Removes a file, symbolic link or directory. */
+	readonly rm: (path: string, options?: RmOptions) => TaskEither<NodeFsError, void>;
+	/** Removes an empty directory. */
+	readonly rmdir: (path: string) => TaskEither<NodeFsError, void>;
+	/** Removes a file or symbolic link. */
+	readonly unlink: (path: string) => TaskEither<NodeFsError, void>;
+	/** Moves an entry, replacing the destination if it exists, and yields the new path. */
+	readonly rename: (oldPath: string, newPath: string) => TaskEither<NodeFsError, string>;
+	/** Copies the contents of a file, replacing the destination if it exists, and yields its path. */
+	readonly copyFile: (src: string, dest: string) => TaskEither<NodeFsError, string>;
+	/**
+	 * Copies a file, symbolic link or directory tree, replacing existing files and merging into
+	 * existing directories, and yields the destination path. Missing parent directories of `dest`
+	 * are created, and relative link targets are made absolute.
+	 */
+	readonly cp: (src: string, dest: string, options?: CpOptions) => TaskEither<NodeFsError, string>;
+	/** Creates a symbolic link at `path` pointing to `target` and yields its path. */
+	readonly symlink: (target: string, path: string) => TaskEither<NodeFsError, string>;
+	/** Changes the permission bits of an entry, following symbolic links, and yields its path. */
+	readonly chmod: (path: string, mode: number) => TaskEither<NodeFsError, string>;
+}
+
+/**
+ * `FileSystem` backed by the disk, through the functions of the `fsPromises` module.
+ */
+export const nodeFileSystem: FileSystem = {
+	readFile: (path) => fsPromises.readFile(path),
+	readdir: (path) => fsPromises.readdir(path),
+	stat: fileInfo,
+	lstat: linkInfo,
+	readLink: (path) => fsPromises.readLink(path),
+	realpath: (path) => fsPromises.realpath(path),
+	writeFile: (path, data) => fsPromises.writeFile(path, data),
+	appendFile: (path, data) => fsPromises.appendFile(path, typeof data === 'string' ? data : Buffer.from(data)),
+	mkdir: (path, options) => fsPromises.mkdir(path, options),
+	rm: (path, options) => fsPromises.rm(path, options),
+	rmdir: (path) => fsPromises.rmdir(path),
+	unlink: (path) => fsPromises.unlink(path),
+	rename: (oldPath, newPath) => fsPromises.rename(oldPath, newPath),
+	copyFile: (src, dest) => fsPromises.copyFile(src, dest),
+	cp: (src, dest, options) => fsPromises.cp(src, dest, options),
+	symlink: (target, path) => fsPromises.symlink(target, path),
+	chmod: (path, mode) => fsPromises.chmod(path, mode)
+};
+
+/**
+ * A program depending on a `FileSystem`, run by providing one, e.g. `program(nodeFileSystem)()`.
+ */
+export type FsProgram<E, A> = ReaderTaskEither<FileSystem, E, A>;
+
+export const readFile = (path: string): FsProgram<NodeFsError, Buffer> => (fs) => fs.readFile(path);
+export const readdir = (path: string): FsProgram<NodeFsError, ReadonlyArray<string>> => (fs) => fs.readdir(path);
+export const stat = (path: string): FsProgram<NodeFsError, FileInfo> => (fs) => fs.stat(path);
+export const lstat = (path: string): FsProgram<NodeFsError, FileInfo> => (fs) => fs.lstat(path);
+export const readLink = (path: string): FsProgram<NodeFsError, string> => (fs) => fs.readLink(path);
+export const realpath = (path: string): FsProgram<NodeFsError, string> => (fs) => fs.realpath(path);
+export const writeFile = (path: string, data: string | Uint8Array): FsProgram<NodeFsError, string> => (fs) => fs.writeFile(path, data);
+export const appendFile = (path: string, data: string | Uint8Array): FsProgram<NodeFsError, string> => (fs) => fs.appendFile(path, data);
+export const mkdir = (path: string, options?: MkdirOptions): FsProgram<NodeFsError, string> => (fs) => fs.mkdir(path, options);
+export const rm = (path: string, options?: RmOptions): FsProgram<NodeFsError, void> => (fs) => fs.rm(path, options);
+export const rmdir = (path: string): FsProgram<NodeFsError, void> => (fs) => fs.rmdir(path);
+export const unlink = (path: string): FsProgram<NodeFsError, void> => (fs) => fs.unlink(path);
+export const rename = (oldPath: string, newPath: string): FsProgram<NodeFsError, string> => (fs) => fs.rename(oldPath, newPath);
+export const copyFile = (src: string, dest: string): FsProgram<NodeFsError, string> => (fs) => fs.copyFile(src, dest);
+export const cp = (src: string, dest: string, options?: CpOptions): FsProgram<NodeFsError, string> => (fs) => fs.cp(src, dest, options);
+export const symlink = (target: string, path: string): FsProgram<NodeFsError, string> => (fs) => fs.symlink(target, path);
+export const chmod = (path: string, mode: number): FsProgram<NodeFsError, string> => (fs) => fs.chmod(path, mode);
+
+/**
+ * Reads a UTF-8 encoded text file.
+ *
+ * @param path File to read.
+ * @returns FsProgram that yields the contents of the file, or fails yielding a NodeFsError.
+ */
+export const readTextFile = (
+	path: string
+): FsProgram<NodeFsError, string> => (fs) => pipe(
+	fs.readFile(path),
+	TE.map((data) => data.toString('utf8'))
+);
+
+/**
+ * Tests whether an entry exists at `path`, following symbolic links.
+ * Only a missing path (`ENOENT` or `ENOTDIR`) yields `false`.
+ *
+ * @param path Path to test.
+ * @returns FsProgram that yields whether `path` exists, or fails yielding a NodeFsError.
+ */
+export const exists = (
+	path: string
+): FsProgram<NodeFsError, boolean> => (fs) => pipe(
+	fs.stat(path),
+	TE.map(() => true),
+	TE.orElse((e) => isENOENT(e) || isENOTDIR(e) ? TE.right(false) : TE.left(e))
+);
@@ -0,0 +1,292 @@
+import path from 'node:path';
+import {
+	Predicate
+} from 'fp-ts/lib/Predicate';
+import {
+	TaskEither
+} from 'fp-ts/lib/TaskEither';
+import {
+	NodeFsError
+} from './errors';
+import {
+	WalkEntry,
+	walk
+} from './walk';
+import {
+	Stream,
+	map,
+	toArray
+} from '../stream';
+
+/**
+ * Options of glob pattern matching.
+ */
+export interface MatchOptions {
+	/** Allow wildcards to match path segments starting with a `.`, defaults to `false`. */
+	readonly dot?: boolean;
+}
+
+const splitAlternatives = (
+	body: string
+): ReadonlyArray<string> => {
+	const alternatives: Array<string> = [];
+	let depth = 0;
+	let start = 0;
+	for (let i = 0; i < body.length; i++) {
+		const c = body[i];
+		if (c === '\\') {
+			i++;
+		} else if (c === '{') {
+			depth++;
+		} else if (c === '}') {
+			depth--;
+		} else if (c === ',' && depth === 0) {
+			alternatives.push(body.slice(start, i));
+			start = i + 1;
+		}
+	}
+	alternatives.push(body.slice(start));
+	return alternatives;
+};
+
+/**
+ * Expands the brace sets of a glob pattern, e.g. `src/{a,b}.{js,ts}` expands to `src/a.js`,
+ * `src/a.ts`, `src/b.js` and `src/b.ts`.
+ * Braces without a `,` are kept as literal characters.
+ *
+ * @param pattern Glob pattern to expand.
+ * @returns The patterns without brace sets.
+ */
+export const expandBraces = (
+	pattern: string
+): ReadonlyArray<string> => {
+	let depth = 0;
+	let start = -1;
+	for (let i = 0; i < pattern.length; i++) {
+		const c = pattern[i];
+		if (c === '\\') {
+			i++;
+		} else if (c === '{') {
+			if (depth === 0) {
+				start = i;
+			}
+			depth++;
+		} else if (c === '}' && depth > 0) {
+			depth--;
+			if (depth === 0) {
+				const alternatives = splitAlternatives(pattern.slice(start + 1, i));
+				if (alternatives.length > 1) {
+					const prefix = pattern.slice(0, start);
+					const suffix = pattern.slice(i + 1);
+					return alternatives.reduce<ReadonlyArray<string>>(
+						(patterns, alternative) => patterns.concat(expandBraces(prefix + alternative + suffix)),
+						[]
+					);
+				}
+			}
+		}
+	}
+	return [pattern];
+};
+
+const escapeRegExp = (
+	s: string
+) => s.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+/**
+ * Compiles the character class opening at `segment[start]`.
+ * Yields its source and the index of its closing bracket, or `undefined` if it is unterminated.
+ */
+const classToRegExp = (
+	segment: string,
+	start: number
+): [string, number] | undefined => {
+	const negated = segment[start + 1] === '!' || segment[start + 1] === '^';
+	const first = negated ? start + 2 : start + 1;
+	let members = '';
+	for (let i = first; i < segment.length; i++) {
+		let c = segment[i];
+		if (c === ']' && i > first) {
+			return [negated ? `[^/${members}]` : `[${members}]`, i];
+		}
+		const escaped = c === '\\' && i + 1 < segment.length;
+		if (escaped) {
+			c = segment[++i];
+		}
+		members += c === '\\' || c === ']' || c === '[' || c === '^' || (escaped && c === '-') ? `\\${c}` : c;
+	}
+	return undefined;
+};
+
+const segmentToRegExp = (
+	segment: string,
+	options: MatchOptions
+): string => {
+	let source = '';
+	for (let i = 0; i < segment.length; i++) {
+		const c = segment[i];
+		if (c === '\\' && i + 1 < segment.length) {
+			source += escapeRegExp(segment[++i]);
+		} else if (c === '*') {
+			source += '[^/]*';
+		} else if (c === '?') {
+			source += '[^/]';
+		} else if (c === '[') {
+			const characterClass = classToRegExp(segment, i);
+			if (characterClass === undefined) {
+				source += '\\[';
+			} else {
+				source += characterClass[0];
+				i = characterClass[1];
+			}
+		} else {
+			source += escapeRegExp(c);
+		}
+	}
+
+	const startsWithWildcard = segment[0] === '*' || segment[0] === '?' || segment[0] === '[';
+	return startsWithWildcard && options.dot !== true ? `(?!\\.)${source}` : source;
+};
+
+const toRegExpSource = (
+	pattern: string,
+	options: MatchOptions
+): string => {
+	const anySegment = options.dot === true ? '[^/]*' : '(?!\\.)[^/]*';
+	const segments = pattern.split('/');
+	const lastIndex = segments.length - 1;
+	return segments.map((segment, i) => {
+		if (segment === '**') {
+			if (i < lastIndex) {
+				return `(?:${anySegment}/)*`;
+			}
+			// A trailing `**` also matches the directory it follows, e.g. `a/**` matches `a`.
+			return i === 0 || segments[i - 1] === '**' ? `${anySegment}(?:/${anySegment})*` : `(?:/${anySegment})*`;
+		}
+		const source = segmentToRegExp(segment, options);
+		return i === lastIndex || (i + 1 === lastIndex && segments[lastIndex] === '**') ? source : `${source}/`;
+	}).join('');
+};
+
+/**
+ * Compiles a glob pattern to a regular expression matching `/` separated paths.
+ *
+ * Supported syntax:
+ * * `*` matches any characters within a path segment,
+ * * `?` matches a single character within a path segment,
+ * * `**` as a whole path segment matches any number of path segments, so `a/**` matches `a` too,
+ * * `[abc]`, `[a-z]` and `[!abc]` match a character of (or not of) a class, `]` being a member
+ *   when it comes first or is escaped,
+ * * `{a,b}` matches either alternative, brace sets can be nested,
+ * * `\` escapes the following character.
+ *
+ * @param pattern Glob pattern to compile.
+ * @param options Match options.
+ * @returns Regular expression matching the whole path.
+ */
+export const toRegExp = (
+	pattern: string,
+	options: MatchOptions = {}
+): RegExp => new RegExp(
+	`^(?:${expandBraces(pattern).map((p) => toRegExpSource(p, options)).join('|')})$`
+);
+
+const toPosix = (
+	p: string
+) => path.sep === '/' ? p : p.split(path.sep).join('/');
+
+/**
+ * Builds a predicate testing paths against a glob pattern.
+ * Platform specific separators in the tested paths are treated as `/`.
+ *
+ * @param pattern Glob pattern to test against, see `toRegExp` for the supported syntax.
+ * @param options Match options.
+ * @returns Predicate that is satisfied by the paths matching `pattern`.
+ */
+export const isMatch = (
+	pattern: string,
+	options: MatchOptions = {}
+): Predicate<string> => {
+	const regExp = toRegExp(pattern, options);
+	return (p: string) => regExp.test(toPosix(p));
+};
+
+/**
+ * Options of `glob`.
+ */
+export interface GlobOptions extends MatchOptions {
+	/** Directory the patterns are relative to, defaults to `process.cwd()`. */
+	readonly cwd?: string;
+	/** Patterns of paths to exclude, in addition to the negated (`!`) patterns. */
+	readonly ignore?: ReadonlyArray<string>;
+	/** Only yield files, not directories, defaults to `true`. */
+	readonly onlyFiles?: boolean;
+}
+
+const withoutCurrentDirectory = (
+	pattern: string
+) => pattern.startsWith('./') ? pattern.slice(2) : pattern;
+
+const anyOf = (
+	predicates: ReadonlyArray<Predicate<string>>
+): Predicate<string> => (p) => predicates.some((predicate) => predicate(p));
+
+/**
+ * Deepest level a pattern can match, `Infinity` if it contains a `**` segment.
+ */
+const patternDepth = (
+	pattern: string
+) => expandBraces(pattern).reduce(
+	(depth, p) => Math.max(depth, p.split('/').includes('**') ? Infinity : p.split('/').length),
+	0
+);
+
+/**
+ * Lazily yields the paths under `options.cwd` matching any of the patterns.
+ * Patterns starting with `!` exclude the paths they match, as do `options.ignore` patterns;
+ * directories excluded by a pattern ending with `/**` are not traversed.
+ * Yielded paths are relative to `options.cwd` and use `/` as separator.
+ *
+ * @param patterns Glob patterns, see `toRegExp` for the supported syntax.
+ * @param options Glob options.
+ * @returns Stream of the matching paths.
+ */
+export const globStream = (
+	patterns: string | ReadonlyArray<string>,
+	options: GlobOptions = {}
+): Stream<NodeFsError, string> => {
+	const { cwd = process.cwd(), ignore = [], onlyFiles = true } = options;
+	const all = (typeof patterns === 'string' ? [patterns] : patterns).map(withoutCurrentDirectory);
+	const positive = all.filter((p) => !p.startsWith('!'));
+	const negative = all
+		.filter((p) => p.startsWith('!'))
+		.map((p) => withoutCurrentDirectory(p.slice(1)))
+		.concat(ignore.map(withoutCurrentDirectory));
+
+	const included = anyOf(positive.map((p) => isMatch(p, options)));
+	const excluded = anyOf(negative.map((p) => isMatch(p, options)));
+	// Only patterns excluding a whole subtree prune it; others are tested against every entry.
+	const excludedDirectory = anyOf(negative.filter((p) => p.endsWith('/**')).map((p) => isMatch(p.slice(0, -3), options)));
+	const relative = (entry: WalkEntry) => toPosix(path.relative(cwd, entry.path));
+
+	return map(relative)(walk(cwd, {
+		maxDepth: positive.reduce((depth, p) => Math.max(depth, patternDepth(p)), 0),
+		prune: (entry) => excludedDirectory(relative(entry)),
+		filter: (entry) => {
+			const p = relative(entry);
+			return (!onlyFiles || !entry.dirent.isDirectory()) && included(p) && !excluded(p);
+		}
+	}));
+};
+
+/**
+ * Collects the paths under `options.cwd` matching any of the patterns, see `globStream`.
+ *
+ * @param patterns Glob patterns, see `toRegExp` for the supported syntax.
+ * @param options Glob options.
+ * @returns TaskEither that yields the matching paths, or fails yielding a NodeFsError.
+ */
+export const glob = (
+	patterns: string | ReadonlyArray<string>,
+	options: GlobOptions = {}
+): TaskEither<NodeFsError, ReadonlyArray<string>> => toArray(globStream(patterns, options));
@@ -0,0 +1,178 @@
+import {
+	BinaryToTextEncoding,
+	Hash,
+	createHash
+} from 'node:crypto';
+import path from 'node:path';
+import {
+	Either,
+	isLeft,
+	right,
+	tryCatch
+} from 'fp-ts/lib/Either';
+import {
+	pipe
+} from 'fp-ts/lib/function';
+import * as TE from 'fp-ts/lib/TaskEither';
+import {
+	TaskEither
+} from 'fp-ts/lib/TaskEither';
+import {
+	NodeFsError,
+	fromUnknown
+} from './errors';
+import {
+	read
+} from './fileHandle';
+import {
+	readLink,
+	readdir,
+	withFileHandle
+} from './promises';
+import {
+	fileInfo
+} from './stats';
+import {
+	readChunks
+} from './stream';
+import {
+	reduce
+} from '../stream';
+
+const newHash = (
+	algorithm: string
+): Either<NodeFsError, Hash> => tryCatch(
+	() => createHash(algorithm),
+	(reason: unknown) => fromUnknown(reason, "Unexpected error creating hash")
+);
+
+/**
+ * Computes the digest of the contents of a file, reading it chunk by chunk so that files larger
+ * than memory can be hashed.
+ * @see https://nodejs.org/api/crypto.html#cryptocreatehashalgorithm-options
+ *
+ * @param file File to hash.
+ * @param algorithm Hash algorithm supported by OpenSSL, e.g. `'sha256'` or `'md5'`, defaults to `'sha256'`.
+ * @param encoding Encoding of the digest, defaults to `'hex'`.
+ * @returns TaskEither that yields the digest, or fails yielding a NodeFsError, including when
+ * `algorithm` is not supported.
+ */
+export const hashFile = (
+	file: string,
+	algorithm = 'sha256',
+	encoding: BinaryToTextEncoding = 'hex'
+): TaskEither<NodeFsError, string> => pipe(
+	TE.fromIOEither(() => newHash(algorithm)),
+	TE.chain((hash) => reduce(hash, (h, chunk: Buffer) => h.update(chunk))(readChunks(file))),
+	TE.map((hash) => hash.digest(encoding))
+);
+
+const hashText = (
+	text: string,
+	algorithm: string
+): Either<NodeFsError, string> => pipe(
+	newHash(algorithm),
+	(hash) => isLeft(hash) ? hash : right(hash.right.update(text).digest('hex'))
+);
+
+const hashTree = (
+	directory: string,
+	algorithm: string
+): TaskEither<NodeFsError, string> => async () => {
+	const entries = await readdir(directory, { withFileTypes: true })();
+	if (isLeft(entries)) {
+		return entries;
+	}
+	const sorted = entries.right.sort((a, b) => Buffer.compare(Buffer.from(a.name), Buffer.from(b.name)));
+
+	let listing = '';
+	for (const entry of sorted) {
+		const entryPath = path.join(directory, entry.name);
+		let digest: Either<NodeFsError, string>;
+		let type: string;
+		if (entry.isDirectory()) {
+			type = 'dir';
+			digest = await hashTree(entryPath, algorithm)();
+		} else if (entry.isFile()) {
+			type = 'file';
+			digest = await hashFile(entryPath, algorithm)();
+		} else if (entry.isSymbolicLink()) {
+			type = 'link';
+			const target = await readLink(entryPath)();
+			digest = isLeft(target) ? target : hashText(target.right, algorithm);
+		} else {
+			continue;
+		}
+		if (isLeft(digest)) {
+			return digest;
+		}
+		listing += `${type} ${entry.name}\0${digest.right}\n`;
+	}
+	return hashText(listing, algorithm);
+};
+
+/**
+ * Computes a digest of a directory tree, Merkle-style: the digest of a directory is the digest of
+ * the sorted list of its entries' types, names and digests, so it changes whenever an entry is
+ * added, removed, renamed or modified anywhere in the tree, and only then.
+ * Symbolic links are hashed by their target rather than followed. Timestamps, permissions and
+ * entries other than files, directories and symbolic links are not taken into account, so the
+ * digest is the same for copies of the tree on any machine, e.g. for use as a cache key.
+ *
+ * @param directory Directory to hash.
+ * @param algorithm Hash algorithm supported by OpenSSL, defaults to `'sha256'`.
+ * @returns TaskEither that yields the hex encoded digest, or fails yielding a NodeFsError.
+ */
+export const hashDir = (
+	directory: string,
+	algorithm = 'sha256'
+): TaskEither<NodeFsError, string> => hashTree(directory, algorithm);
+
+/** Size of the blocks compared by `filesEqual`. */
+const blockSize = 64 * 1024;
+
+/**
+ * Tests whether two files have the same contents.
+ * Files of different sizes are reported as different without being read; otherwise the files are
+ * compared block by block and reading stops at the first difference.
+ *
+ * @param a First file.
+ * @param b Second file.
+ * @returns TaskEither that yields whether the contents are equal, or fails yielding a NodeFsError.
+ */
+export const filesEqual = (
+	a: string,
+	b: string
+): TaskEither<NodeFsError, boolean> => pipe(
+	TE.Do,
+	TE.apS('infoA', fileInfo(a)),
+	TE.apS('infoB', fileInfo(b)),
+	TE.chain(({ infoA, infoB }) => infoA.size !== infoB.size
+		? TE.right(false)
+		: withFileHandle(a, 'r')((handleA) => withFileHandle(b, 'r')((handleB) => async () => {
+			const bufferA = Buffer.alloc(blockSize);
+			const bufferB = Buffer.alloc(blockSize);
+			for (let position = 0; ; position += blockSize) {
+				const [readA, readB] = await Promise.all([
+					read(handleA, bufferA, 0, blockSize, position)(),
+					read(handleB, bufferB, 0, blockSize, position)()
+				]);
+				if (isLeft(readA)) {
+					return readA;
+				}
+				if (isLeft(readB)) {
+					return readB;
+				}
+				const bytesRead = readA.right.bytesRead;
+				if (bytesRead !== readB.right.bytesRead) {
+					return right(false);
+				}
+				if (bytesRead === 0) {
+					return right(true);
+				}
+				if (!bufferA.subarray(0, bytesRead).equals(bufferB.subarray(0, bytesRead))) {
+					return right(false);
+				}
+			}
+		})))
+);
@@ -0,0 +1,276 @@
+import {
+	PathLike
+} from 'node:fs';
+import {
+	Either,
+	isLeft,
+	left,
+	right,
+	traverseArray
+} from 'fp-ts/lib/Either';
+import {
+	pipe
+} from 'fp-ts/lib/function';
+import * as TE from 'fp-ts/lib/TaskEither';
+import {
+	TaskEither
+} from 'fp-ts/lib/TaskEither';
+import {
+	writeFileAtomic
+} from './atomic';
+import {
+	NodeFsError
+} from './errors';
+import {
+	appendFile,
+	readFile,
+	writeFile
+} from './promises';
+import {
+	readLines
+} from './stream';
+import {
+	Stream
+} from '../stream';
+import {
+	TaggedPatterns,
+	foldTagged
+} from '../tagged';
+
+/** The file could not be read or written. */
+export interface IoError {
+	readonly _tag: 'IoError';
+	readonly error: NodeFsError;
+}
+
+/** The contents of the file are not valid JSON. */
+export interface ParseError {
+	readonly _tag: 'ParseError';
+	readonly message: string;
+	/** Offset of the offending character in the parsed text, absent if not reported by the engine. */
+	readonly position?: number;
+	/** 1-based line of the offending character, or of the record for JSON Lines. */
+	readonly line?: number;
+	/** 1-based column of the offending character, when its position is known. */
+	readonly column?: number;
+}
+
+/** The parsed value was rejected by the decoder. */
+export interface DecodeError<E> {
+	readonly _tag: 'DecodeError';
+	readonly error: E;
+	/** 1-based line of the record for JSON Lines. */
+	readonly line?: number;
+}
+
+/** The value could not be serialized, e.g. it contains a cycle, a `BigInt` or is `undefined`. */
+export interface StringifyError {
+	readonly _tag: 'StringifyError';
+	readonly message: string;
+}
+
+/**
+ * Error yielded while reading or writing JSON, `E` being the error type of the decoder.
+ */
+export type JsonError<E = never> =
+	| IoError
+	| ParseError
+	| DecodeError<E>
+	| StringifyError;
+
+export const isIoError = <E>(e: JsonError<E>): e is IoError => e._tag === 'IoError';
+export const isParseError = <E>(e: JsonError<E>): e is ParseError => e._tag === 'ParseError';
+export const isDecodeError = <E>(e: JsonError<E>): e is DecodeError<E> => e._tag === 'DecodeError';
+export const isStringifyError = <E>(e: JsonError<E>): e is StringifyError => e._tag === 'StringifyError';
+
+/**
+ * Handlers for every case of `JsonError`.
+ */
+export type Patterns<E, B> = TaggedPatterns<JsonError<E>, B>;
+
+/**
+ * Exhaustively pattern matches on a `JsonError`.
+ */
+export const fold = <E, B>(
+	patterns: Patterns<E, B>
+): ((e: JsonError<E>) => B) => foldTagged<JsonError<E>, B>(patterns);
+
+/**
+ * Validates a parsed value, e.g. an io-ts codec's `decode`.
+ */
+export type Decoder<E, A> = (u: unknown) => Either<E, A>;
+
+const ioError = (error: NodeFsError): IoError => ({ _tag: 'IoError', error });
+
+const toLineAndColumn = (
+	text: string,
+	position: number
+) => {
+	const before = text.slice(0, position).split('\n');
+	return { line: before.length, column: before[before.length - 1].length + 1 };
+};
+
+const stripBom = (
+	text: string
+) => text.replace(/^\uFEFF/, '');
+
+/**
+ * Parses JSON text, locating the offending character on failure when the engine reports it.
+ *
+ * @param text Text to parse.
+ * @returns Either the parsed value, or a ParseError.
+ */
+export const parse = (
+	text: string
+): Either<ParseError, unknown> => {
+	try {
+		return right(JSON.parse(text));
+	} catch (reason: unknown) {
+		const message = reason instanceof Error ? reason.message : "Unexpected error parsing JSON";
+		const reported = /position (\d+)/.exec(message);
+		if (reported === null) {
+			return left({ _tag: 'ParseError', message });
+		}
+		const position = Number(reported[1]);
+		return left({ _tag: 'ParseError', message, position, ...toLineAndColumn(text, position) });
+	}
+};
+
+/**
+ * Serializes a value as JSON text.
+ *
+ * @param value Value to serialize.
+ * @param spaces Indentation, as accepted by `JSON.stringify`.
+ * @returns Either the JSON text, or a StringifyError.
+ */
+export const stringify = (
+	value: unknown,
+	spaces?: number | string
+): Either<StringifyError, string> => {
+	try {
+		const text: string | undefined = JSON.stringify(value, undefined, spaces);
+		return text === undefined
+			? left({ _tag: 'StringifyError', message: 'Value is not serializable as JSON' })
+			: right(text);
+	} catch (reason: unknown) {
+		return left({ _tag: 'StringifyError', message: reason instanceof Error ? reason.message : "Unexpected error serializing JSON" });
+	}
+};
+
+const decodeWith = <E, A>(
+	decoder: Decoder<E, A>,
+	text: string,
+	line?: number
+): Either<JsonError<E>, A> => {
+	const parsed = parse(text);
+	if (isLeft(parsed)) {
+		return line === undefined ? parsed : left({ ...parsed.left, line });
+	}
+	const decoded = decoder(parsed.right);
+	if (isLeft(decoded)) {
+		return line === undefined
+			? left({ _tag: 'DecodeError', error: decoded.left })
+			: left({ _tag: 'DecodeError', error: decoded.left, line });
+	}
+	return decoded;
+};
+
+/**
+ * Reads a UTF-8 encoded JSON file and validates its contents with `decoder`.
+ * A leading byte order mark is ignored.
+ *
+ * @param path File to read.
+ * @param decoder Validates the parsed contents.
+ * @returns TaskEither that yields the decoded contents, or fails yielding a JsonError.
+ */
+export const readJson = <E, A>(
+	path: PathLike,
+	decoder: Decoder<E, A>
+): TaskEither<JsonError<E>, A> => pipe(
+	readFile(path, 'utf8'),
+	TE.mapLeft(ioError),
+	TE.chainEitherK((text) => decodeWith(decoder, stripBom(text)))
+);
+
+/**
+ * Options of `writeJson`.
+ */
+export interface WriteJsonOptions {
+	/** Indentation, as accepted by `JSON.stringify`, no whitespace is added by default. */
+	readonly spaces?: number | string;
+	/** Write through `writeFileAtomic`, defaults to `false`. */
+	readonly atomic?: boolean;
+}
+
+/**
+ * Serializes a value as JSON and writes it to a UTF-8 encoded file, followed by a newline.
+ *
+ * @param path File to write.
+ * @param value Value to serialize.
+ * @param options Write options.
+ * @returns TaskEither that yields the path, or fails yielding a JsonError.
+ */
+export const writeJson = <T extends PathLike>(
+	path: T,
+	value: unknown,
+	options: WriteJsonOptions = {}
+): TaskEither<JsonError, T> => pipe(
+	TE.fromIOEither(() => stringify(value, options.spaces)),
+	TE.chainW((text) => pipe(
+		options.atomic === true ? writeFileAtomic(path, `${text}\n`) : writeFile(path, `${text}\n`, 'utf8'),
+		TE.mapLeft(ioError)
+	))
+);
+
+/**
+ * Lazily reads a UTF-8 encoded [JSON Lines](https://jsonlines.org) file, validating every record
+ * with `decoder`. Blank lines, and a leading byte order mark, are skipped.
+ * The stream fails with the first record that can not be parsed or decoded.
+ *
+ * @param path File to read.
+ * @param decoder Validates every parsed record.
+ * @returns Stream of the decoded records.
+ */
+export const readJsonLines = <E, A>(
+	path: PathLike,
+	decoder: Decoder<E, A>
+): Stream<JsonError<E>, A> => ({
+	[Symbol.asyncIterator]: async function* () {
+		let line = 0;
+		for await (const text of readLines(path)) {
+			line++;
+			if (isLeft(text)) {
+				yield left(ioError(text.left));
+				return;
+			}
+			if (text.right.trim() === '') {
+				continue;
+			}
+			const record = decodeWith(decoder, line === 1 ? stripBom(text.right) : text.right, line);
+			yield record;
+			if (isLeft(record)) {
+				return;
+			}
+		}
+	}
+});
+
+/**
+ * Appends values to a [JSON Lines](https://jsonlines.org) file, one record per line.
+ * The file is created if it does not exist. Nothing is written if any value can not be serialized.
+ * @see https://nodejs.org/api/fs.html#fspromisesappendfilepath-data-options
+ *
+ * @param path File to append to.
+ * @param values Values to append.
+ * @returns TaskEither that yields the path, or fails yielding a JsonError.
+ */
+export const appendJsonLines = <T extends PathLike>(
+	path: T,
+	values: ReadonlyArray<unknown>
+): TaskEither<JsonError, T> => pipe(
+	TE.fromIOEither(() => traverseArray((value: unknown) => stringify(value))(values)),
+	TE.chainW((records) => pipe(
+		appendFile(path, records.map((record) => `${record}\n`).join(''), 'utf8'),
+		TE.mapLeft(ioError)
+	))
+);
@@ -0,0 +1,250 @@
+import {
+	randomBytes
+} from 'node:crypto';
+import os from 'node:os';
+import {
+	Either,
+	isLeft,
+	left,
+	right,
+	tryCatch
+} from 'fp-ts/lib/Either';
+import {
+	TaskEither,
+	bracketW
+} from 'fp-ts/lib/TaskEither';
+import {
+	NodeFsError,
+	isEEXIST,
+	isENOENT
+} from './errors';
+import {
+	link,
+	readFile,
+	rename,
+	rm,
+	utimes,
+	writeFile
+} from './promises';
+import {
+	FileInfo,
+	fileInfo
+} from './stats';
+
+/**
+ * Contents of a lockfile, identifying the process holding the lock.
+ */
+export interface LockOwner {
+	readonly pid: number;
+	readonly hostname: string;
+	/** Random identifier of this acquisition, so a process never releases a lock it lost. */
+	readonly token: string;
+	/** ISO 8601 time the lock was acquired at. */
+	readonly acquiredAt: string;
+}
+
+/** The lock is held by another owner and did not become available within the allowed retries. */
+export interface LockHeldError {
+	readonly _tag: 'LockHeldError';
+	readonly path: string;
+	/** The current owner, if the lockfile could be read and is well-formed. */
+	readonly owner: LockOwner | undefined;
+}
+
+/**
+ * The lock was broken by another process while held, e.g. because refreshing it failed for
+ * longer than `staleMs`, so `use` may have run concurrently with another owner.
+ */
+export interface LockCompromisedError {
+	readonly _tag: 'LockCompromisedError';
+	readonly path: string;
+}
+
+/**
+ * Error yielded while acquiring or releasing a lock.
+ */
+export type LockError =
+	| LockHeldError
+	| LockCompromisedError
+	| NodeFsError;
+
+/**
+ * Options of `withLock`.
+ */
+export interface LockOptions {
+	/**
+	 * A lock not refreshed for this many milliseconds is considered abandoned and broken,
+	 * defaults to `10000`. The lock is refreshed every `staleMs / 2` milliseconds while held.
+	 */
+	readonly staleMs?: number;
+	/** Attempts to acquire a held lock after the first one, defaults to `0`. */
+	readonly retries?: number;
+	/** Delay between attempts in milliseconds, defaults to `100`. */
+	readonly retryMs?: number;
+}
+
+interface HeldLock {
+	readonly lockfile: string;
+	readonly owner: LockOwner;
+	readonly refresh: ReturnType<typeof setInterval>;
+}
+
+const lockfileOf = (
+	path: string
+) => `${path}.lock`;
+
+const delay = (
+	ms: number
+) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const isLockOwner = (
+	u: unknown
+): u is LockOwner => {
+	if (typeof u !== 'object' || u === null) {
+		return false;
+	}
+	const { pid, hostname, token, acquiredAt } = u as Record<string, unknown>;
+	return typeof pid === 'number' && typeof hostname === 'string' && typeof token === 'string' && typeof acquiredAt === 'string';
+};
+
+/**
+ * Reads the owner of a lockfile, or `undefined` if it can not be read or is malformed, in which
+ * case the lock is treated as held by another owner.
+ */
+const readOwner = async (
+	lockfile: string
+): Promise<LockOwner | undefined> => {
+	const contents = await readFile(lockfile, 'utf8')();
+	if (isLeft(contents)) {
+		return undefined;
+	}
+	const owner = tryCatch((): unknown => JSON.parse(contents.right), () => undefined);
+	return isLeft(owner) || !isLockOwner(owner.right) ? undefined : owner.right;
+};
+
+const isStale = (
+	info: FileInfo,
+	staleMs: number
+) => Date.now() - info.mtime.getTime() > staleMs;
+
+/**
+ * Removes a stale lockfile without ever removing a lock acquired meanwhile by another process,
+ * e.g. one that broke the same stale lock first: the lockfile is moved aside, and the moved file
+ * is only removed if it is still stale, otherwise it is put back.
+ */
+const breakStale = async (
+	lockfile: string,
+	staleMs: number
+): Promise<Either<NodeFsError, void>> => {
+	const aside = `${lockfile}.${randomBytes(6).toString('hex')}.stale`;
+	const moved = await rename(lockfile, aside)();
+	if (isLeft(moved)) {
+		// Already broken or released by another process.
+		return isENOENT(moved.left) ? right(undefined) : moved;
+	}
+	const info = await fileInfo(aside)();
+	if (isLeft(info) || isStale(info.right, staleMs)) {
+		return rm(aside, { force: true })();
+	}
+	// Linking rather than renaming back does not replace a lock acquired while this one was aside.
+	const restored = await link(aside, lockfile)();
+	const removed = await rm(aside, { force: true })();
+	if (isLeft(restored) && !isEEXIST(restored.left)) {
+		return restored;
+	}
+	return isLeft(removed) ? removed : right(undefined);
+};
+
+const acquire = (
+	path: string,
+	options: LockOptions
+): TaskEither<LockError, HeldLock> => async () => {
+	const { staleMs = 10000, retries = 0, retryMs = 100 } = options;
+	const lockfile = lockfileOf(path);
+	const owner: LockOwner = {
+		pid: process.pid,
+		hostname: os.hostname(),
+		token: randomBytes(16).toString('hex'),
+		acquiredAt: new Date().toISOString()
+	};
+
+	for (let attempt = 0; ; attempt++) {
+		const created = await writeFile(lockfile, JSON.stringify(owner), { flag: 'wx' })();
+		if (!isLeft(created)) {
+			// Stops refreshing once the lock was lost, so as not to keep the lock of a new owner alive.
+			const refresh: ReturnType<typeof setInterval> = setInterval(() => {
+				void readOwner(lockfile).then((current) => {
+					if (current?.token !== owner.token) {
+						clearInterval(refresh);
+						return;
+					}
+					const now = new Date();
+					return utimes(lockfile, now, now)();
+				});
+			}, staleMs / 2);
+			refresh.unref();
+			return right({ lockfile, owner, refresh });
+		}
+		if (!isEEXIST(created.left)) {
+			return created;
+		}
+
+		const info = await fileInfo(lockfile)();
+		if (isLeft(info)) {
+			// Released between the two calls, try again right away.
+			if (isENOENT(info.left)) {
+				continue;
+			}
+			return info;
+		}
+		if (isStale(info.right, staleMs)) {
+			const broken = await breakStale(lockfile, staleMs);
+			if (isLeft(broken)) {
+				return broken;
+			}
+			continue;
+		}
+		if (attempt >= retries) {
+			return left({ _tag: 'LockHeldError', path, owner: await readOwner(lockfile) });
+		}
+		await delay(retryMs);
+	}
+};
+
+const release = (
+	path: string,
+	{ lockfile, owner, refresh }: HeldLock
+): TaskEither<LockError, void> => async (): Promise<Either<LockError, void>> => {
+	clearInterval(refresh);
+	const current = await readOwner(lockfile);
+	if (current?.token !== owner.token) {
+		return left({ _tag: 'LockCompromisedError', path });
+	}
+	return rm(lockfile)();
+};
+
+/**
+ * Runs `use` while holding an advisory, exclusive lock on `path`, coordinating processes that
+ * share a file system, e.g. several writers of a cache directory.
+ *
+ * The lock is a lockfile next to `path`, named after it with a `.lock` suffix and created
+ * exclusively, holding a `LockOwner` as JSON. Its modification time is refreshed while `use`
+ * runs; a lockfile that has not been refreshed for `staleMs` milliseconds, e.g. because its owner
+ * crashed, is broken. The lock is released once `use` completes, whether it succeeded or failed.
+ * Processes that ignore the lockfile are not prevented from accessing `path`.
+ *
+ * @param path Path to lock, which does not need to exist.
+ * @param options Lock options.
+ * @returns A function that takes the program to run while holding the lock and returns a
+ * TaskEither that yields its result, or fails yielding a LockError or the error of `use`.
+ */
+export const withLock = (
+	path: string,
+	options: LockOptions = {}
+) => <E, B>(
+	use: TaskEither<E, B>
+): TaskEither<LockError | E, B> => bracketW(
+	acquire(path, options),
+	() => use,
+	(held) => release(path, held)
+);
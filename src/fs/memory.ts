@@ -0,0 +1,728 @@
+import {
+	constants
+} from 'node:fs';
+import os from 'node:os';
+import {
+	posix
+} from 'node:path';
+import {
+	Either,
+	isLeft,
+	left,
+	right
+} from 'fp-ts/lib/Either';
+import {
+	fromIOEither
+} from 'fp-ts/lib/TaskEither';
+import {
+	NodeFsError,
+	fromUnknown
+} from './errors';
+import {
+	FileSystem
+} from './fileSystem';
+import {
+	FileInfo
+} from './stats';
+
+type ErrorCode =
+	| 'ENOENT'
+	| 'EEXIST'
+	| 'ENOTDIR'
+	| 'EISDIR'
+	| 'ENOTEMPTY'
+	| 'EINVAL'
+	| 'ELOOP'
+	| 'EBUSY';
+
+const descriptions: Readonly<Record<ErrorCode, string>> = {
+	ENOENT: 'no such file or directory',
+	EEXIST: 'file already exists',
+	ENOTDIR: 'not a directory',
+	EISDIR: 'illegal operation on a directory',
+	ENOTEMPTY: 'directory not empty',
+	EINVAL: 'invalid argument',
+	ELOOP: 'too many symbolic links encountered',
+	EBUSY: 'resource busy or locked'
+};
+
+/**
+ * Builds the error Node.js would reject with, e.g.
+ * `ENOENT: no such file or directory, open '/missing'`.
+ */
+const systemError = (
+	code: ErrorCode,
+	syscall: string,
+	path?: string,
+	dest?: string
+): NodeFsError => {
+	const paths = path === undefined ? '' : dest === undefined ? ` '${path}'` : ` '${path}' -> '${dest}'`;
+	const error = Object.assign(
+		Error(`${code}: ${descriptions[code]}, ${syscall}${paths}`),
+		{ code, errno: -os.constants.errno[code], syscall, path, dest }
+	);
+	return fromUnknown(error, "Unexpected error in memory file system");
+};
+
+/**
+ * Builds an error Node.js raises itself rather than the system, e.g. `ERR_FS_EISDIR` when `rm`
+ * is called on a directory without `recursive`.
+ */
+const nodeError = (
+	code: string,
+	errno: number,
+	syscall: string,
+	message: string,
+	path: string
+): NodeFsError => fromUnknown(
+	Object.assign(Error(message), { code, errno, syscall, path }),
+	"Unexpected error in memory file system"
+);
+
+interface Metadata {
+	mode: number;
+	readonly uid: number;
+	readonly gid: number;
+	atime: Date;
+	mtime: Date;
+	ctime: Date;
+	readonly birthtime: Date;
+}
+
+interface FileEntry {
+	readonly kind: 'file';
+	data: Buffer;
+	readonly meta: Metadata;
+}
+
+interface DirectoryEntry {
+	readonly kind: 'directory';
+	readonly children: Map<string, Entry>;
+	readonly meta: Metadata;
+}
+
+interface SymlinkEntry {
+	readonly kind: 'symlink';
+	readonly target: string;
+	readonly meta: Metadata;
+}
+
+type Entry = FileEntry | DirectoryEntry | SymlinkEntry;
+
+/**
+ * Outcome of resolving a path: the directory holding its last segment, and the entry of that
+ * segment unless it does not exist.
+ * `parent` is only missing for the root directory.
+ */
+interface Located {
+	readonly parent: DirectoryEntry | undefined;
+	readonly name: string;
+	readonly entry: Entry | undefined;
+	/** Absolute path, without symbolic links, `.` or `..` segments. */
+	readonly path: string;
+}
+
+/** Linux gives up resolving a path after following this many symbolic links. */
+const maxSymlinks = 40;
+
+const typeBits: Readonly<Record<Entry['kind'], number>> = {
+	file: constants.S_IFREG,
+	directory: constants.S_IFDIR,
+	symlink: constants.S_IFLNK
+};
+
+const segments = (
+	path: string
+) => path.split('/').filter((segment) => segment !== '');
+
+/**
+ * Splits off the trailing slashes of a path naming the entry created or removed by an operation,
+ * as the kernel checks them against the entry rather than following it, e.g. `unlink` of `link/`
+ * fails with `ENOTDIR` even if the link points to a directory.
+ */
+const trailingSlashes = (
+	path: string
+): { readonly path: string, readonly trailingSlash: boolean } => {
+	const match = /^(.*[^/])\/+$/.exec(path);
+	return match === null ? { path, trailingSlash: false } : { path: match[1], trailingSlash: true };
+};
+
+/**
+ * Options of `memoryFileSystem`.
+ */
+export interface MemoryFileSystemOptions {
+	/** Directory relative paths are resolved against, created if missing, defaults to `'/'`. */
+	readonly cwd?: string;
+	/** Source of the timestamps of entries, defaults to the current time. */
+	readonly now?: () => Date;
+}
+
+/**
+ * Creates a `FileSystem` kept in memory, for fast and deterministic tests of programs written
+ * against `FileSystem`.
+ * Paths follow POSIX conventions, and every operation fails with the same error code, `syscall`
+ * and message as Node.js on Linux, e.g. `ENOTEMPTY` when removing a directory that is not empty.
+ * Permission bits are recorded but not enforced.
+ *
+ * @param files Initial contents, mapping paths to file contents; paths ending with `/` create
+ * directories. Relative paths are resolved against `options.cwd`, and missing parent directories
+ * are created.
+ * @param options Memory file system options.
+ * @returns The FileSystem.
+ * @throws Error if the initial contents conflict, e.g. a file is also used as a directory.
+ */
+export const memoryFileSystem = (
+	files: Readonly<Record<string, string | Uint8Array>> = {},
+	options: MemoryFileSystemOptions = {}
+): FileSystem => {
+	const { cwd = '/', now = () => new Date() } = options;
+	const umask = 0o022;
+
+	const metadata = (
+		permissions: number
+	): Metadata => {
+		const time = now();
+		return {
+			mode: permissions & ~umask,
+			uid: process.getuid?.() ?? 0,
+			gid: process.getgid?.() ?? 0,
+			atime: time,
+			mtime: time,
+			ctime: time,
+			birthtime: time
+		};
+	};
+
+	const root: DirectoryEntry = { kind: 'directory', children: new Map(), meta: metadata(0o777) };
+
+	/**
+	 * Resolves `path` segment by segment the way the kernel does, so `..` following a symbolic
+	 * link leads to the parent of the link's target.
+	 */
+	const locate = (
+		path: string,
+		followLast: boolean
+	): Either<ErrorCode, Located> => {
+		if (path === '') {
+			return left('ENOENT');
+		}
+		let remaining = segments(path.startsWith('/') ? path : `${cwd}/${path}`);
+		// A trailing slash requires the last entry to be a directory, following it if it is a link.
+		let trailingSlash = path.endsWith('/');
+		const ancestors: Array<{ readonly name: string, readonly entry: DirectoryEntry }> = [];
+		let links = 0;
+
+		while (remaining.length > 0) {
+			const [name, ...rest] = remaining;
+			const directory = ancestors.length === 0 ? root : ancestors[ancestors.length - 1].entry;
+			remaining = rest;
+			if (name === '.') {
+				continue;
+			}
+			if (name === '..') {
+				ancestors.pop();
+				continue;
+			}
+
+			const entry = directory.children.get(name);
+			const isLast = rest.length === 0;
+			if (entry === undefined) {
+				return isLast
+					? right({ parent: directory, name, entry, path: `/${[...ancestors.map((a) => a.name), name].join('/')}` })
+					: left('ENOENT');
+			}
+			if (entry.kind === 'symlink' && (!isLast || followLast || trailingSlash)) {
+				if (++links > maxSymlinks) {
+					return left('ELOOP');
+				}
+				if (entry.target.startsWith('/')) {
+					ancestors.length = 0;
+				}
+				remaining = [...segments(entry.target), ...rest];
+				trailingSlash = trailingSlash || (isLast && entry.target.endsWith('/'));
+				continue;
+			}
+			if (isLast && trailingSlash && entry.kind !== 'directory') {
+				return left('ENOTDIR');
+			}
+			if (isLast) {
+				return right({ parent: directory, name, entry, path: `/${[...ancestors.map((a) => a.name), name].join('/')}` });
+			}
+			if (entry.kind !== 'directory') {
+				return left('ENOTDIR');
+			}
+			ancestors.push({ name, entry });
+		}
+
+		// The path ends with a directory reached through `.` or `..`, or is the root.
+		if (ancestors.length === 0) {
+			return right({ parent: undefined, name: '', entry: root, path: '/' });
+		}
+		const last = ancestors[ancestors.length - 1];
+		return right({
+			parent: ancestors.length === 1 ? root : ancestors[ancestors.length - 2].entry,
+			name: last.name,
+			entry: last.entry,
+			path: `/${ancestors.map((a) => a.name).join('/')}`
+		});
+	};
+
+	const existing = (
+		path: string,
+		followLast: boolean
+	): Either<ErrorCode, Located & { readonly entry: Entry }> => {
+		const located = locate(path, followLast);
+		return isLeft(located) || located.right.entry !== undefined
+			? located as Either<ErrorCode, Located & { readonly entry: Entry }>
+			: left('ENOENT');
+	};
+
+	const toFileInfo = (
+		entry: Entry
+	): FileInfo => {
+		const fields = {
+			size: entry.kind === 'file'
+				? entry.data.length
+				: entry.kind === 'symlink' ? Buffer.byteLength(entry.target) : 4096,
+			mode: typeBits[entry.kind] | entry.meta.mode,
+			uid: entry.meta.uid,
+			gid: entry.meta.gid,
+			atime: entry.meta.atime,
+			mtime: entry.meta.mtime,
+			ctime: entry.meta.ctime,
+			birthtime: entry.meta.birthtime
+		};
+		switch (entry.kind) {
+			case 'file':
+				return { _tag: 'File', ...fields };
+			case 'directory':
+				return { _tag: 'Directory', ...fields };
+			case 'symlink':
+				return { _tag: 'Symlink', ...fields };
+		}
+	};
+
+	const touch = (
+		meta: Metadata
+	) => {
+		meta.mtime = meta.ctime = now();
+	};
+
+	const toBuffer = (
+		data: string | Uint8Array
+	) => typeof data === 'string' ? Buffer.from(data, 'utf8') : Buffer.from(data);
+
+	const write = (
+		path: string,
+		data: string | Uint8Array,
+		append: boolean
+	): Either<NodeFsError, string> => {
+		const target = trailingSlashes(path);
+		const located = locate(target.path, true);
+		if (isLeft(located)) {
+			return left(systemError(located.left, 'open', path));
+		}
+		const { parent, name, entry } = located.right;
+		if (target.trailingSlash) {
+			return left(systemError('EISDIR', 'open', path));
+		}
+		if (entry === undefined && parent !== undefined) {
+			parent.children.set(name, { kind: 'file', data: toBuffer(data), meta: metadata(0o666) });
+			touch(parent.meta);
+		} else if (entry?.kind === 'file') {
+			entry.data = append ? Buffer.concat([entry.data, toBuffer(data)]) : toBuffer(data);
+			touch(entry.meta);
+		} else {
+			return left(systemError('EISDIR', 'open', path));
+		}
+		return right(path);
+	};
+
+	const mkdir = (
+		path: string,
+		recursive: boolean
+	): Either<NodeFsError, string> => {
+		if (!recursive) {
+			const located = locate(trailingSlashes(path).path, false);
+			if (isLeft(located)) {
+				return left(systemError(located.left, 'mkdir', path));
+			}
+			const { parent, name, entry } = located.right;
+			if (entry !== undefined || parent === undefined) {
+				return left(systemError('EEXIST', 'mkdir', path));
+			}
+			parent.children.set(name, { kind: 'directory', children: new Map(), meta: metadata(0o777) });
+			touch(parent.meta);
+			return right(path);
+		}
+
+		const prefix = path.startsWith('/') ? '/' : '';
+		const names = segments(path);
+		for (let i = 1; i <= names.length; i++) {
+			const located = locate(`${prefix}${names.slice(0, i).join('/')}`, true);
+			if (isLeft(located)) {
+				return left(systemError(located.left, 'mkdir', path));
+			}
+			const { parent, name, entry } = located.right;
+			if (entry === undefined && parent !== undefined) {
+				parent.children.set(name, { kind: 'directory', children: new Map(), meta: metadata(0o777) });
+				touch(parent.meta);
+			} else if (entry?.kind !== 'directory') {
+				return left(systemError(i === names.length ? 'EEXIST' : 'ENOTDIR', 'mkdir', path));
+			}
+		}
+		return right(path);
+	};
+
+	const remove = (
+		path: string,
+		syscall: string,
+		check: (entry: Entry) => ErrorCode | NodeFsError | undefined
+	): Either<NodeFsError, void> => {
+		const target = trailingSlashes(path);
+		const located = existing(target.path, false);
+		if (isLeft(located)) {
+			return left(systemError(located.left, syscall, path));
+		}
+		const { parent, name, entry } = located.right;
+		if (parent === undefined) {
+			return left(systemError('EBUSY', syscall, path));
+		}
+		if (target.trailingSlash && entry.kind !== 'directory') {
+			return left(systemError('ENOTDIR', syscall, path));
+		}
+		const failure = check(entry);
+		if (failure !== undefined) {
+			return left(typeof failure === 'string' ? systemError(failure, syscall, path) : failure);
+		}
+		parent.children.delete(name);
+		touch(parent.meta);
+		return right(undefined);
+	};
+
+	const copyFile = (
+		src: string,
+		dest: string
+	): Either<NodeFsError, string> => {
+		const fail = (code: ErrorCode) => left(systemError(code, 'copyfile', src, dest));
+		const source = existing(src, true);
+		if (isLeft(source)) {
+			return fail(source.left);
+		}
+		const target = trailingSlashes(dest);
+		const destination = locate(target.path, true);
+		if (isLeft(destination)) {
+			return fail(destination.left);
+		}
+		const { entry } = source.right;
+		const { parent, name, entry: replaced } = destination.right;
+		if (entry.kind !== 'file' || replaced?.kind === 'directory' || parent === undefined || target.trailingSlash) {
+			return fail('EISDIR');
+		}
+		if (replaced?.kind === 'file') {
+			replaced.data = Buffer.from(entry.data);
+			touch(replaced.meta);
+		} else {
+			parent.children.set(name, { kind: 'file', data: Buffer.from(entry.data), meta: { ...metadata(0o666), mode: entry.meta.mode } });
+			touch(parent.meta);
+		}
+		return right(dest);
+	};
+
+	/** Whether `dest` is `src` or inside it, as `fs.cp` checks, without resolving links. */
+	const isSrcSubdir = (
+		src: string,
+		dest: string
+	) => {
+		const destSegments = segments(posix.resolve(cwd, dest));
+		return segments(posix.resolve(cwd, src)).every((segment, i) => destSegments[i] === segment);
+	};
+
+	/**
+	 * Copies the way `fs.cp` does: the checks are repeated for every entry of a copied directory,
+	 * existing files and links are replaced, and relative link targets are made absolute.
+	 */
+	const copy = (
+		src: string,
+		dest: string,
+		recursive: boolean
+	): Either<NodeFsError, void> => {
+		const source = existing(src, false);
+		if (isLeft(source)) {
+			return left(systemError(source.left, 'lstat', src));
+		}
+		const destination = locate(dest, false);
+		if (isLeft(destination) && destination.left !== 'ENOENT') {
+			return left(systemError(destination.left, 'lstat', dest));
+		}
+		const { entry } = source.right;
+		const replaced = isLeft(destination) ? undefined : destination.right.entry;
+		if (entry === replaced) {
+			return left(nodeError('ERR_FS_CP_EINVAL', os.constants.errno.EINVAL, 'cp', `Invalid src or dest: cp returned EINVAL (src and dest cannot be the same) ${dest}`, dest));
+		}
+		if (entry.kind === 'directory' && replaced !== undefined && replaced.kind !== 'directory') {
+			return left(nodeError('ERR_FS_CP_DIR_TO_NON_DIR', os.constants.errno.EISDIR, 'cp', `Cannot overwrite non-directory with directory: cp returned EISDIR (cannot overwrite non-directory ${dest} with directory ${src}) ${dest}`, dest));
+		}
+		if (entry.kind !== 'directory' && replaced?.kind === 'directory') {
+			return left(nodeError('ERR_FS_CP_NON_DIR_TO_DIR', os.constants.errno.ENOTDIR, 'cp', `Cannot overwrite directory with non-directory: cp returned ENOTDIR (cannot overwrite directory ${dest} with non-directory ${src}) ${dest}`, dest));
+		}
+		if (entry.kind === 'directory' && isSrcSubdir(src, dest)) {
+			return left(nodeError('ERR_FS_CP_EINVAL', os.constants.errno.EINVAL, 'cp', `Invalid src or dest: cp returned EINVAL (cannot copy ${src} to a subdirectory of self ${dest}) ${dest}`, dest));
+		}
+		if (entry.kind === 'directory' && !recursive) {
+			return left(nodeError('ERR_FS_EISDIR', os.constants.errno.EISDIR, 'cp', `Path is a directory: cp returned EISDIR (${src} is a directory (not copied)) ${src}`, src));
+		}
+		const created = mkdir(posix.dirname(dest), true);
+		if (isLeft(created)) {
+			return created;
+		}
+
+		switch (entry.kind) {
+			case 'file': {
+				if (replaced !== undefined) {
+					const removed = remove(dest, 'unlink', () => undefined);
+					if (isLeft(removed)) {
+						return removed;
+					}
+				}
+				const copied = copyFile(src, dest);
+				return isLeft(copied) ? copied : right(undefined);
+			}
+			case 'symlink': {
+				const target = posix.isAbsolute(entry.target) ? entry.target : posix.resolve(cwd, posix.dirname(src), entry.target);
+				if (replaced?.kind === 'symlink') {
+					const current = posix.isAbsolute(replaced.target) ? replaced.target : posix.resolve(cwd, posix.dirname(dest), replaced.target);
+					if (isSrcSubdir(target, current)) {
+						return left(nodeError('ERR_FS_CP_EINVAL', os.constants.errno.EINVAL, 'cp', `Invalid src or dest: cp returned EINVAL (cannot copy ${target} to a subdirectory of self ${current}) ${dest}`, dest));
+					}
+					const followed = existing(src, true);
+					if (isLeft(followed)) {
+						return left(systemError(followed.left, 'stat', src));
+					}
+					if (followed.right.entry.kind === 'directory' && isSrcSubdir(current, target)) {
+						return left(nodeError('ERR_FS_CP_SYMLINK_TO_SUBDIRECTORY', os.constants.errno.EINVAL, 'cp', `Cannot overwrite symlink in subdirectory of self: cp returned EINVAL (cannot overwrite ${current} with ${target}) ${dest}`, dest));
+					}
+					const removed = remove(dest, 'unlink', () => undefined);
+					if (isLeft(removed)) {
+						return removed;
+					}
+				} else if (replaced !== undefined) {
+					return left(systemError('EEXIST', 'symlink', target, dest));
+				}
+				const located = locate(dest, false);
+				if (isLeft(located) || located.right.parent === undefined) {
+					return left(systemError(isLeft(located) ? located.left : 'EBUSY', 'symlink', target, dest));
+				}
+				located.right.parent.children.set(located.right.name, { kind: 'symlink', target, meta: { ...metadata(0o777), mode: 0o777 } });
+				touch(located.right.parent.meta);
+				return right(undefined);
+			}
+			case 'directory': {
+				if (replaced === undefined) {
+					const made = mkdir(dest, false);
+					if (isLeft(made)) {
+						return made;
+					}
+				}
+				for (const name of Array.from(entry.children.keys()).sort()) {
+					const copied = copy(posix.join(src, name), posix.join(dest, name), recursive);
+					if (isLeft(copied)) {
+						return copied;
+					}
+				}
+				if (replaced === undefined) {
+					const made = existing(dest, false);
+					if (!isLeft(made)) {
+						made.right.entry.meta.mode = entry.meta.mode;
+					}
+				}
+				return right(undefined);
+			}
+		}
+	};
+
+	const fileSystem: FileSystem = {
+		readFile: (path) => fromIOEither(() => {
+			const located = existing(path, true);
+			if (isLeft(located)) {
+				return left(systemError(located.left, 'open', path));
+			}
+			const { entry } = located.right;
+			return entry.kind === 'file'
+				? right(Buffer.from(entry.data))
+				: left(systemError('EISDIR', 'read'));
+		}),
+
+		readdir: (path) => fromIOEither(() => {
+			const located = existing(path, true);
+			if (isLeft(located)) {
+				return left(systemError(located.left, 'scandir', path));
+			}
+			const { entry } = located.right;
+			return entry.kind === 'directory'
+				? right(Array.from(entry.children.keys()).sort())
+				: left(systemError('ENOTDIR', 'scandir', path));
+		}),
+
+		stat: (path) => fromIOEither(() => {
+			const located = existing(path, true);
+			return isLeft(located)
+				? left(systemError(located.left, 'stat', path))
+				: right(toFileInfo(located.right.entry));
+		}),
+
+		lstat: (path) => fromIOEither(() => {
+			const located = existing(path, false);
+			return isLeft(located)
+				? left(systemError(located.left, 'lstat', path))
+				: right(toFileInfo(located.right.entry));
+		}),
+
+		readLink: (path) => fromIOEither(() => {
+			const located = existing(path, false);
+			if (isLeft(located)) {
+				return left(systemError(located.left, 'readlink', path));
+			}
+			const { entry } = located.right;
+			return entry.kind === 'symlink'
+				? right(entry.target)
+				: left(systemError('EINVAL', 'readlink', path));
+		}),
+
+		realpath: (path) => fromIOEither(() => {
+			const located = existing(path, true);
+			return isLeft(located)
+				? left(systemError(located.left, 'realpath', path))
+				: right(located.right.path);
+		}),
+
+		writeFile: (path, data) => fromIOEither(() => write(path, data, false)),
+
+		appendFile: (path, data) => fromIOEither(() => write(path, data, true)),
+
+		mkdir: (path, options = {}) => fromIOEither(() => mkdir(path, options.recursive === true)),
+
+		rm: (path, options = {}) => fromIOEither((): Either<NodeFsError, void> => {
+			const isDirectory = () => nodeError('ERR_FS_EISDIR', os.constants.errno.EISDIR, 'rm', `Path is a directory: rm returned EISDIR (is a directory) ${path}`, path);
+			// As `lstat` does, a trailing slash resolves a link, failing if its target is missing.
+			const located = locate(path, false);
+			if (isLeft(located) || located.right.entry === undefined) {
+				const code = isLeft(located) ? located.left : 'ENOENT';
+				return options.force === true && code === 'ENOENT' ? right(undefined) : left(systemError(code, 'lstat', path));
+			}
+			const link = existing(trailingSlashes(path).path, false);
+			if (located.right.entry.kind === 'directory' && !isLeft(link) && link.right.entry.kind === 'symlink') {
+				// Node.js refuses to remove a link to a directory named with a trailing slash, and ignores it when recursive.
+				return options.recursive === true
+					? right(undefined)
+					: left(isDirectory());
+			}
+			return remove(path, 'lstat', (entry) => entry.kind === 'directory' && options.recursive !== true
+				? isDirectory()
+				: undefined);
+		}),
+
+		rmdir: (path) => fromIOEither(() => remove(path, 'rmdir', (entry) => entry.kind !== 'directory'
+			? 'ENOTDIR'
+			: entry.children.size > 0 ? 'ENOTEMPTY' : undefined)),
+
+		unlink: (path) => fromIOEither(() => remove(path, 'unlink', (entry) => entry.kind === 'directory'
+			? 'EISDIR'
+			: undefined)),
+
+		rename: (oldPath, newPath) => fromIOEither((): Either<NodeFsError, string> => {
+			const fail = (code: ErrorCode) => left(systemError(code, 'rename', oldPath, newPath));
+			const from = trailingSlashes(oldPath);
+			const to = trailingSlashes(newPath);
+			const source = existing(from.path, false);
+			if (isLeft(source)) {
+				return fail(source.left);
+			}
+			const destination = locate(to.path, false);
+			if (isLeft(destination)) {
+				return fail(destination.left);
+			}
+			const src = source.right;
+			const dest = destination.right;
+			if (src.parent === undefined || dest.parent === undefined) {
+				return fail('EBUSY');
+			}
+			if ((from.trailingSlash || to.trailingSlash) && src.entry.kind !== 'directory') {
+				return fail('ENOTDIR');
+			}
+			if (src.entry === dest.entry) {
+				return right(newPath);
+			}
+			if (src.entry.kind === 'directory' && dest.path.startsWith(`${src.path}/`)) {
+				return fail('EINVAL');
+			}
+			if (dest.entry !== undefined) {
+				if (src.entry.kind !== 'directory' && dest.entry.kind === 'directory') {
+					return fail('EISDIR');
+				}
+				if (src.entry.kind === 'directory' && dest.entry.kind !== 'directory') {
+					return fail('ENOTDIR');
+				}
+				if (dest.entry.kind === 'directory' && dest.entry.children.size > 0) {
+					return fail('ENOTEMPTY');
+				}
+			}
+			src.parent.children.delete(src.name);
+			dest.parent.children.set(dest.name, src.entry);
+			touch(src.parent.meta);
+			touch(dest.parent.meta);
+			src.entry.meta.ctime = now();
+			return right(newPath);
+		}),
+
+		copyFile: (src, dest) => fromIOEither(() => copyFile(src, dest)),
+
+		cp: (src, dest, options = {}) => fromIOEither((): Either<NodeFsError, string> => {
+			const copied = copy(src, dest, options.recursive === true);
+			return isLeft(copied) ? copied : right(dest);
+		}),
+
+		symlink: (target, path) => fromIOEither((): Either<NodeFsError, string> => {
+			const link = trailingSlashes(path);
+			const located = locate(link.path, false);
+			if (isLeft(located)) {
+				return left(systemError(located.left, 'symlink', target, path));
+			}
+			const { parent, name, entry } = located.right;
+			if (entry !== undefined || parent === undefined) {
+				return left(systemError('EEXIST', 'symlink', target, path));
+			}
+			if (link.trailingSlash) {
+				return left(systemError('ENOENT', 'symlink', target, path));
+			}
+			parent.children.set(name, { kind: 'symlink', target, meta: { ...metadata(0o777), mode: 0o777 } });
+			touch(parent.meta);
+			return right(path);
+		}),
+
+		chmod: (path, mode) => fromIOEither((): Either<NodeFsError, string> => {
+			const located = existing(path, true);
+			if (isLeft(located)) {
+				return left(systemError(located.left, 'chmod', path));
+			}
+			located.right.entry.meta.mode = mode & 0o7777;
+			located.right.entry.meta.ctime = now();
+			return right(path);
+		})
+	};
+
+	const created = mkdir(cwd, true);
+	if (isLeft(created)) {
+		throw created.left.error;
+	}
+	for (const [path, data] of Object.entries(files)) {
+		const parent = path.slice(0, path.lastIndexOf('/') + 1);
+		const created = parent === '' ? right(parent) : mkdir(parent, true);
+		const result = isLeft(created) || path.endsWith('/') ? created : write(path, data, false);
+		if (isLeft(result)) {
+			throw result.left.error;
+		}
+	}
+
+	return fileSystem;
+};
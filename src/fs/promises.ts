@@ -1,5 +1,6 @@
 import {
 	BigIntStats,
+	BufferEncodingOption,
 	CopyOptions,
 	Dir,
 	Dirent,
@@ -19,7 +20,7 @@ import {
 	FileHandle,
 	FlagAndOpenMode
 } from 'node:fs/promises';
-import EventEmitter, {
+import {
 	Abortable
 } from 'node:events';
 import {
@@ -27,13 +28,16 @@ import {
 } from 'node:stream';
 import {
 	TaskEither,
+	bracketW,
 	tryCatch
 } from 'fp-ts/lib/TaskEither';
-
-const toError = (
-	error: unknown,
-	defaultMessage: string
-) => error instanceof Error ? error : Error(defaultMessage);
+import {
+	close
+} from './fileHandle';
+import {
+	NodeFsError,
+	fromUnknown
+} from './errors';
 
 /**
  * Tests a user's permissions for the file or directory specified by `path`.
@@ -45,14 +49,14 @@ const toError = (
  * 
  * @param path File or directory path to test permissions.
  * @param mode Integer that specifies the accessibility checks to be performed.
- * @returns TaskEither that yields the path, or fails yielding an Error
+ * @returns TaskEither that yields the path, or fails yielding a NodeFsError
  */
 export const access = <T extends PathLike>(
 	path: T,
 	mode?: number
-): TaskEither<Error, T> => tryCatch(
+): TaskEither<NodeFsError, T> => tryCatch(
 	() => fsPromises.access(path, mode).then(() => path),
-	(reason: unknown) => toError(reason, "Unexpected error while accessing path")
+	(reason: unknown) => fromUnknown(reason, "Unexpected error while accessing path")
 );
 
 /**
@@ -65,15 +69,15 @@ export const access = <T extends PathLike>(
  * @param path File to append to
  * @param data Data to append to the file
  * @param options Append options
- * @returns TaskEither that yields the path, or fails yielding an Error
+ * @returns TaskEither that yields the path, or fails yielding a NodeFsError
  */
 export const appendFile = <T extends (PathLike | FileHandle)>(
 	path: T,
 	data: string | Buffer,
 	options?: (ObjectEncodingOptions & FlagAndOpenMode) | BufferEncoding
-): TaskEither<Error, T> => tryCatch(
+): TaskEither<NodeFsError, T> => tryCatch(
 	() => fsPromises.appendFile(path, data, options).then(() => path),
-	(reason: unknown) => toError(reason, "Unexpected error appending file")
+	(reason: unknown) => fromUnknown(reason, "Unexpected error appending file")
 );
 
 /**
@@ -83,14 +87,14 @@ export const appendFile = <T extends (PathLike | FileHandle)>(
  * 
  * @param path File to change permissions of
  * @param mode Numerical bitmask [`File modes`](https://nodejs.org/api/fs.html#file-modes) 
- * @returns TaskEither that yields the path, or fails yielding an Error
+ * @returns TaskEither that yields the path, or fails yielding a NodeFsError
  */
 export const chmod = <T extends PathLike>(
 	path: T,
 	mode: Mode
-): TaskEither<Error, T> => tryCatch(
+): TaskEither<NodeFsError, T> => tryCatch(
 	() => fsPromises.chmod(path, mode).then(() => path),
-	(reason: unknown) => toError(reason, "Unexpected error while performing chmod")
+	(reason: unknown) => fromUnknown(reason, "Unexpected error while performing chmod")
 );
 
 /**
@@ -101,15 +105,15 @@ export const chmod = <T extends PathLike>(
  * @param path File to change ownership of.
  * @param uid Integer that denotes the user id that corresponds to the owner to be set. 
  * @param gid Integer that denotes the group id that corresponds to the group to be set.
- * @returns TaskEither that yields the path, or fails yielding an Error
+ * @returns TaskEither that yields the path, or fails yielding a NodeFsError
  */
 export const chown = <T extends PathLike>(
 	path: T,
 	uid: number,
 	gid: number
-): TaskEither<Error, T> => tryCatch(
+): TaskEither<NodeFsError, T> => tryCatch(
 	() => fsPromises.chown(path, uid, gid).then(() => path),
-	(reason: unknown) => toError(reason, "Unexpected error while performing chown")
+	(reason: unknown) => fromUnknown(reason, "Unexpected error while performing chown")
 );
 
 /**
@@ -124,15 +128,15 @@ export const chown = <T extends PathLike>(
  * @param src Source file to copy.
  * @param dest Destination file of the copy operation.
  * @param mode Optional modifiers that specify the behavior of the copy operation.
- * @returns TaskEither that yields the destination path, or fails yielding an Error.
+ * @returns TaskEither that yields the destination path, or fails yielding a NodeFsError.
  */
 export const copyFile = <T extends PathLike>(
 	src: PathLike,
 	dest: T,
 	mode?: number
-): TaskEither<Error, T> => tryCatch(
+): TaskEither<NodeFsError, T> => tryCatch(
 	() => fsPromises.copyFile(src, dest, mode).then(() => dest),
-	(reason: unknown) => toError(reason, "Unexpected error during copyFile")
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during copyFile")
 );
 
 /**
@@ -147,15 +151,15 @@ export const copyFile = <T extends PathLike>(
  * @param src Source path to copy.
  * @param dest Destination path to copy to.
  * @param opts Copy options that specify the behavior of this operation.
- * @returns TaskEither that yields the destination path, or fails yielding an Error.
+ * @returns TaskEither that yields the destination path, or fails yielding a NodeFsError.
  */
 export const cp = (
 	src: string,
 	dest: string,
 	opts?: CopyOptions
-): TaskEither<Error, string> => tryCatch(
+): TaskEither<NodeFsError, string> => tryCatch(
 	() => fsPromises.cp(src, dest, opts).then(() => dest),
-	(reason: unknown) => toError(reason, "Unexpected error during cp")
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during cp")
 );
 
 /**
@@ -165,15 +169,15 @@ export const cp = (
  * @param path Symbolic link to change ownership of.
  * @param uid Integer that denotes the user id that corresponds to the owner to be set. 
  * @param gid Integer that denotes the group id that corresponds to the group to be set. 
- * @returns TaskEither that yields the path, or fails yielding an Error.
+ * @returns TaskEither that yields the path, or fails yielding a NodeFsError.
  */
 export const lchown = <T extends PathLike>(
 	path: T,
 	uid: number,
 	gid: number
-): TaskEither<Error, T> => tryCatch(
+): TaskEither<NodeFsError, T> => tryCatch(
 	() => fsPromises.lchown(path, uid, gid).then(() => path),
-	(reason: unknown) => toError(reason, "Unexpected error duriong lchown")
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during lchown")
 );
 
 /**
@@ -185,15 +189,15 @@ export const lchown = <T extends PathLike>(
  * @param path File or symbolic link to change access and modification times of.
  * @param atime Access time.
  * @param mtime Modification time.
- * @returns TaskEither that yields the path, or fails yielding an Error.
+ * @returns TaskEither that yields the path, or fails yielding a NodeFsError.
  */
 export const lutimes = <T extends PathLike>(
 	path: T,
 	atime: string | number | Date,
 	mtime: string | number | Date,
-): TaskEither<Error, T> => tryCatch(
+): TaskEither<NodeFsError, T> => tryCatch(
 	() => fsPromises.lutimes(path, atime, mtime).then(() => path),
-	(reason: unknown) => toError(reason, "Unexpected error during lutimes")
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during lutimes")
 );
 
 /**
@@ -204,14 +208,14 @@ export const lutimes = <T extends PathLike>(
  * 
  * @param existingPath Existing path to create a link from.
  * @param newPath Path to create the link to.
- * @returns TaskEither that yields the new path, or fails yielding an Error.
+ * @returns TaskEither that yields the new path, or fails yielding a NodeFsError.
  */
 export const link = <T extends PathLike>(
 	existingPath: PathLike,
 	newPath: T
-): TaskEither<Error, T> => tryCatch(
+): TaskEither<NodeFsError, T> => tryCatch(
 	() => fsPromises.link(existingPath, newPath).then(() => newPath),
-	(reason: unknown) => toError(reason, "Unexpected error during link")
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during link")
 );
 
 /**
@@ -223,14 +227,14 @@ export const link = <T extends PathLike>(
  * 
  * @param path Path of file or link to stat
  * @param options Stat options
- * @returns TaskEither that yields Stats, or fails yielding an Error.
+ * @returns TaskEither that yields Stats, or fails yielding a NodeFsError.
  */
 export const lstat = (
 	path: PathLike,
 	options?: StatOptions & { bigint?: false }
-): TaskEither<Error, Stats> => tryCatch(
+): TaskEither<NodeFsError, Stats> => tryCatch(
 	() => fsPromises.lstat(path, options),
-	(reason: unknown) => toError(reason, "")
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during lstat")
 );
 
 /**
@@ -244,14 +248,14 @@ export const lstat = (
  * 
  * @param path Path to a file. If a URL is provided, it must use the `file:` protocol.
  * @param options Either the file mode, or an optional object of mkdir options.
- * @returns TaskEither that yields the path, or fails yielding an Error.
+ * @returns TaskEither that yields the path, or fails yielding a NodeFsError.
  */
 export const mkdir = <T extends PathLike>(
 	path: T,
 	options?: Mode | (MakeDirectoryOptions & { recursive?: boolean })
-): TaskEither<Error, T> => tryCatch(
+): TaskEither<NodeFsError, T> => tryCatch(
 	() => fsPromises.mkdir(path, options).then(() => path),
-	(reason: unknown) => toError(reason, "")
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during mkdir")
 );
 
 /**
@@ -266,16 +270,30 @@ export const mkdir = <T extends PathLike>(
  * 
  * @param prefix 
  * @param options 
- * @returns TaskEither that yields the string containing the filesystem path of the newly created
- * temporary directory, or fails yielding an Error.
+ * @returns TaskEither that yields the filesystem path of the newly created temporary directory
+ * (a `Buffer` if the `encoding` is `'buffer'`, a string otherwise), or fails yielding a NodeFsError.
  */
-export const mkdtemp = (
+export function mkdtemp(
 	prefix: string,
-	options?: ObjectEncodingOptions | BufferEncoding
-): TaskEither<Error, string> => tryCatch(
-	() => fsPromises.mkdtemp(prefix, options),
-	(reason: unknown) => toError(reason, "")
-);
+	options?: ObjectEncodingOptions | BufferEncoding | null
+): TaskEither<NodeFsError, string>;
+export function mkdtemp(
+	prefix: string,
+	options: BufferEncodingOption
+): TaskEither<NodeFsError, Buffer>;
+export function mkdtemp(
+	prefix: string,
+	options?: ObjectEncodingOptions | BufferEncoding | null
+): TaskEither<NodeFsError, string | Buffer>;
+export function mkdtemp(
+	prefix: string,
+	options?: ObjectEncodingOptions | BufferEncoding | null | BufferEncodingOption
+): TaskEither<NodeFsError, string | Buffer> {
+	return tryCatch(
+		() => fsPromises.mkdtemp(prefix, options as ObjectEncodingOptions),
+		(reason: unknown) => fromUnknown(reason, "Unexpected error during mkdtemp")
+	);
+}
 
 /**
  * Opens a `FileHandle`.
@@ -285,20 +303,48 @@ export const mkdtemp = (
  * [Naming Files, Paths, and Namespaces](https://docs.microsoft.com/en-us/windows/desktop/FileIO/naming-a-file).
  * Under NTFS, if the filename contains a colon, Node.js will open a file system stream, as
  * described by [this MSDN page](https://docs.microsoft.com/en-us/windows/desktop/FileIO/using-streams).
+ * 
+ * The caller is responsible for closing the returned handle, see `withFileHandle`.
  * @see https://nodejs.org/api/fs.html#fspromisesopenpath-flags-mode
  * 
  * @param path Path of file to open.
  * @param flags See `support of file system `flags``.
  * @param mode Sets the file mode (permission and sticky bits) if the file is created.
- * @returns TaskEither that yields a FileHandle object, or fails yielding an Error.
+ * @returns TaskEither that yields a FileHandle object, or fails yielding a NodeFsError.
  */
 export const open = (
 	path: PathLike,
 	flags?: string | number,
 	mode?: Mode
-): TaskEither<Error, FileHandle> => tryCatch(
+): TaskEither<NodeFsError, FileHandle> => tryCatch(
 	() => fsPromises.open(path, flags, mode),
-	(reason: unknown) => toError(reason, "")
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during open")
+);
+
+/**
+ * Opens a `FileHandle` for the duration of `use`, closing it once `use` completes whether it
+ * succeeded or failed.
+ * Prefer this over `open` so the handle can not leak; the `FileHandle` overloads of `appendFile`,
+ * `readFile` and `writeFile`, as well as the functions of the `fileHandle` module, can be used
+ * within `use`.
+ * @see https://nodejs.org/api/fs.html#fspromisesopenpath-flags-mode
+ * 
+ * @param path Path of file to open.
+ * @param flags See `support of file system `flags``.
+ * @param mode Sets the file mode (permission and sticky bits) if the file is created.
+ * @returns A function that takes the program using the handle and returns a TaskEither that
+ * yields its result, or fails yielding a NodeFsError or the error of `use`.
+ */
+export const withFileHandle = (
+	path: PathLike,
+	flags?: string | number,
+	mode?: Mode
+) => <E, B>(
+	use: (handle: FileHandle) => TaskEither<E, B>
+): TaskEither<NodeFsError | E, B> => bracketW(
+	open(path, flags, mode),
+	use,
+	(handle) => close(handle)
 );
 
 /**
@@ -315,14 +361,14 @@ export const open = (
  * 
  * @param path Path of dir to open.
  * @param options opendir options
- * @returns TaskEither that yields a Dir object, or fails yielding an Error.
+ * @returns TaskEither that yields a Dir object, or fails yielding a NodeFsError.
  */
 export const opendir = (
 	path: PathLike,
 	options?: OpenDirOptions
-): TaskEither<Error, Dir> => tryCatch(
+): TaskEither<NodeFsError, Dir> => tryCatch(
 	() => fsPromises.opendir(path, options),
-	(reason: unknown) => toError(reason, "")
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during opendir")
 );
 
 /**
@@ -338,17 +384,33 @@ export const opendir = (
  * 
  * @param path A path to a file. If a URL is provided, it must use the `file:` protocol.
  * @param options The encoding (or an object specifying the encoding), used as the encoding of the result. If not provided, `'utf8'` is used.
- * @returns TaskEither that yeilds an Dirent[] (if `options.withFileTypes` is set to `true`), or fails yielding an Error.
+ * @returns TaskEither that yields a Dirent[] (if `options.withFileTypes` is set to `true`), a Buffer[] (if the `encoding` is `'buffer'`) or a string[], or fails yielding a NodeFsError.
  */
-export const readdir = (
+export function readdir(
 	path: PathLike,
-	options: ObjectEncodingOptions & {
-		withFileTypes: true;
-	}
-): TaskEither<Error, Dirent[]> => tryCatch(
-	() => fsPromises.readdir(path, options),
-	(reason: unknown) => toError(reason, "")
-);
+	options?: (ObjectEncodingOptions & { withFileTypes?: false }) | BufferEncoding | null
+): TaskEither<NodeFsError, string[]>;
+export function readdir(
+	path: PathLike,
+	options: { encoding: 'buffer', withFileTypes?: false } | 'buffer'
+): TaskEither<NodeFsError, Buffer[]>;
+export function readdir(
+	path: PathLike,
+	options: ObjectEncodingOptions & { withFileTypes: true }
+): TaskEither<NodeFsError, Dirent[]>;
+export function readdir(
+	path: PathLike,
+	options?: (ObjectEncodingOptions & { withFileTypes?: boolean }) | BufferEncoding | null
+): TaskEither<NodeFsError, string[] | Buffer[] | Dirent[]>;
+export function readdir(
+	path: PathLike,
+	options?: (ObjectEncodingOptions & { withFileTypes?: boolean }) | BufferEncoding | BufferEncodingOption | null
+): TaskEither<NodeFsError, string[] | Buffer[] | Dirent[]> {
+	return tryCatch(
+		() => fsPromises.readdir(path, options as ObjectEncodingOptions & { withFileTypes: true }),
+		(reason: unknown) => fromUnknown(reason, "Unexpected error during readdir")
+	);
+}
 
 /**
  * Asynchronously reads the entire contents of a file.
@@ -365,15 +427,29 @@ export const readdir = (
  * 
  * @param path Filename or `FileHandle`.
  * @param options Read file options.
- * @returns TaskEither that yields the Buffer or string representing the data of the file, or fails yielding an Error.
+ * @returns TaskEither that yields the data of the file (a string if an encoding is specified, a Buffer otherwise), or fails yielding a NodeFsError.
  */
-export const readFile = (
+export function readFile(
 	path: PathLike | FileHandle,
-	options?: ({ encoding?: null, flag?: OpenMode } & EventEmitter.Abortable)
-): TaskEither<Error, Buffer | string> => tryCatch(
-	() => fsPromises.readFile(path, options),
-	(reason: unknown) => toError(reason, "")
-);
+	options?: ({ encoding?: null, flag?: OpenMode } & Abortable) | null
+): TaskEither<NodeFsError, Buffer>;
+export function readFile(
+	path: PathLike | FileHandle,
+	options: ({ encoding: BufferEncoding, flag?: OpenMode } & Abortable) | BufferEncoding
+): TaskEither<NodeFsError, string>;
+export function readFile(
+	path: PathLike | FileHandle,
+	options?: (ObjectEncodingOptions & { flag?: OpenMode } & Abortable) | BufferEncoding | null
+): TaskEither<NodeFsError, string | Buffer>;
+export function readFile(
+	path: PathLike | FileHandle,
+	options?: (ObjectEncodingOptions & { flag?: OpenMode } & Abortable) | BufferEncoding | null
+): TaskEither<NodeFsError, string | Buffer> {
+	return tryCatch(
+		() => fsPromises.readFile(path, options),
+		(reason: unknown) => fromUnknown(reason, "Unexpected error during readFile")
+	);
+}
 
 /**
  * Reads the contents of the symbolic link referred to by `path`.
@@ -389,15 +465,29 @@ export const readFile = (
  * 
  * @param path Path of symbolic link to read.
  * @param options Encoding options.
- * @returns TaskEither that yields the string or Buffer object that contains the symbolic link's string value, or fails yielding an Error.
+ * @returns TaskEither that yields the string or Buffer object that contains the symbolic link's string value, or fails yielding a NodeFsError.
  */
-export const readLink = (
+export function readLink(
 	path: PathLike,
-	options?: ObjectEncodingOptions | BufferEncoding
-): TaskEither<Error, string|Buffer> => tryCatch(
-	() => fsPromises.readlink(path, options),
-	(reason: unknown) => toError(reason, "")
-);
+	options?: ObjectEncodingOptions | BufferEncoding | null
+): TaskEither<NodeFsError, string>;
+export function readLink(
+	path: PathLike,
+	options: BufferEncodingOption
+): TaskEither<NodeFsError, Buffer>;
+export function readLink(
+	path: PathLike,
+	options?: ObjectEncodingOptions | BufferEncoding | null
+): TaskEither<NodeFsError, string | Buffer>;
+export function readLink(
+	path: PathLike,
+	options?: ObjectEncodingOptions | BufferEncoding | null | BufferEncodingOption
+): TaskEither<NodeFsError, string | Buffer> {
+	return tryCatch(
+		() => fsPromises.readlink(path, options as ObjectEncodingOptions),
+		(reason: unknown) => fromUnknown(reason, "Unexpected error during readLink")
+	);
+}
 
 /**
  * Determines the actual location of `path` using the same semantics as the`fs.realpath.native()`
@@ -416,15 +506,29 @@ export const readLink = (
  * 
  * @param path Path to be resolved.
  * @param options Realpath options.
- * @returns TaskEither that yields the string or Buffer of the actual location of `path`, or fails yielding an Error.
+ * @returns TaskEither that yields the string or Buffer of the actual location of `path`, or fails yielding a NodeFsError.
  */
-export const realpath = (
+export function realpath(
 	path: PathLike,
-	options?: ObjectEncodingOptions | BufferEncoding
-): TaskEither<Error, string | Buffer> => tryCatch(
-	() => fsPromises.realpath(path, options),
-	(reason: unknown) => toError(reason, "")
-);
+	options?: ObjectEncodingOptions | BufferEncoding | null
+): TaskEither<NodeFsError, string>;
+export function realpath(
+	path: PathLike,
+	options: BufferEncodingOption
+): TaskEither<NodeFsError, Buffer>;
+export function realpath(
+	path: PathLike,
+	options?: ObjectEncodingOptions | BufferEncoding | null
+): TaskEither<NodeFsError, string | Buffer>;
+export function realpath(
+	path: PathLike,
+	options?: ObjectEncodingOptions | BufferEncoding | null | BufferEncodingOption
+): TaskEither<NodeFsError, string | Buffer> {
+	return tryCatch(
+		() => fsPromises.realpath(path, options as ObjectEncodingOptions),
+		(reason: unknown) => fromUnknown(reason, "Unexpected error during realpath")
+	);
+}
 
 /**
  * Asynchronously renames `oldPath` to `newPath`.
@@ -433,14 +537,14 @@ export const realpath = (
  * 
  * @param oldPath Path to rename.
  * @param newPath New file path.
- * @returns TaskEither that yields the `newPath`, or fails yielding an Error.
+ * @returns TaskEither that yields the `newPath`, or fails yielding a NodeFsError.
  */
 export const rename = <T extends PathLike>(
 	oldPath: PathLike,
 	newPath: T
-): TaskEither<Error, T> => tryCatch(
+): TaskEither<NodeFsError, T> => tryCatch(
 	() => fsPromises.rename(oldPath, newPath).then(() => newPath),
-	(reason: unknown) => toError(reason, "")
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during rename")
 );
 
 /**
@@ -455,14 +559,14 @@ export const rename = <T extends PathLike>(
  * 
  * @param path Path of directory to remove.
  * @param options rmdir options.
- * @returns TaskEither that yields void, or fails yielding an Error.
+ * @returns TaskEither that yields void, or fails yielding a NodeFsError.
  */
 export const rmdir = (
 	path: PathLike,
 	options?: RmDirOptions
-): TaskEither<Error, void> => tryCatch(
+): TaskEither<NodeFsError, void> => tryCatch(
 	() => fsPromises.rmdir(path, options),
-	(reason: unknown) => toError(reason, "")
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during rmdir")
 );
 
 /**
@@ -471,14 +575,14 @@ export const rmdir = (
  * 
  * @param path Path to remove.
  * @param options rm options.
- * @returns TaskEither that yields void, or fails yielding an Error.
+ * @returns TaskEither that yields void, or fails yielding a NodeFsError.
  */
 export const rm = (
 	path: PathLike,
 	options?: RmOptions
-): TaskEither<Error, void> => tryCatch(
+): TaskEither<NodeFsError, void> => tryCatch(
 	() => fsPromises.rm(path, options),
-	(reason: unknown) => toError(reason, "")
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during rm")
 );
 
 /**
@@ -487,14 +591,14 @@ export const rm = (
  * 
  * @param path Path to stat.
  * @param options Stat options.
- * @returns TaskEither that yields the Stats, or fails yielding an Error.
+ * @returns TaskEither that yields the Stats, or fails yielding a NodeFsError.
  */
 export const stat = (
 	path: PathLike,
 	options?: (StatOptions & { bigint?: false })
-): TaskEither<Error, Stats | BigIntStats> => tryCatch(
+): TaskEither<NodeFsError, Stats | BigIntStats> => tryCatch(
 	() => fsPromises.stat(path, options),
-	(reason: unknown) => toError(reason, "")
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during stat")
 );
 
 /**
@@ -510,15 +614,15 @@ export const stat = (
  * @param target Path to which the symlink has to be created.
  * @param path Path to where the symlink will be created
  * @param type Represents the type of symlink to be created.
- * @returns TaskEither that yields the `path` where the symlink was created, or fails yielding an Error.
+ * @returns TaskEither that yields the `path` where the symlink was created, or fails yielding a NodeFsError.
  */
 export const symlink = <T extends PathLike>(
 	target: PathLike,
 	path: T,
 	type?: 'dir' | 'file' | 'junction'
-): TaskEither<Error, T> => tryCatch(
+): TaskEither<NodeFsError, T> => tryCatch(
 	() => fsPromises.symlink(target, path, type).then(() => path),
-	(reason: unknown) => toError(reason, "")
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during symlink")
 );
 
 /**
@@ -532,14 +636,14 @@ export const symlink = <T extends PathLike>(
  * 
  * @param path Path of file to truncate.
  * @param length Number of bytes.
- * @returns TaskEither that yeilds the `path`, or fails yielding an Error.
+ * @returns TaskEither that yeilds the `path`, or fails yielding a NodeFsError.
  */
 export const truncate = <T extends PathLike>(
 	path: T,
 	length?: number
-): TaskEither<Error, T> => tryCatch(
+): TaskEither<NodeFsError, T> => tryCatch(
 	() => fsPromises.truncate(path, length).then(() => path),
-	(reason: unknown) => toError(reason, "")
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during truncate")
 );
 
 /**
@@ -551,13 +655,13 @@ export const truncate = <T extends PathLike>(
  * @see https://nodejs.org/api/fs.html#fspromisesunlinkpath
  * 
  * @param path Path of file or symbolic link to remove.
- * @returns TaskEither that yields void, or fails yielding an Error.
+ * @returns TaskEither that yields void, or fails yielding a NodeFsError.
  */
 export const unlink = (
 	path: PathLike
-): TaskEither<Error, void> => tryCatch(
+): TaskEither<NodeFsError, void> => tryCatch(
 	() => fsPromises.unlink(path),
-	(reason: unknown) => toError(reason, "")
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during unlink")
 );
 
 /**
@@ -567,35 +671,23 @@ export const unlink = (
  * * Values can be either numbers representing Unix epoch time, `Date`s, or a
  * numeric string like `'123456789.0'`.
  * * If the value can not be converted to a number, or is `NaN`, `Infinity` or`-Infinity`, the 
- * TaskEither will yield an `Error`.
+ * TaskEither will yield a `NodeFsError`.
  * @see https://nodejs.org/api/fs.html#fspromisesutimespath-atime-mtime
  * 
  * @param path File or symbolic link to change access and modification times of. 
  * @param atime Access time.
  * @param mtime Modification time.
- * @returns TaskEither that yields the `path`, or fails yielding an Error.
+ * @returns TaskEither that yields the `path`, or fails yielding a NodeFsError.
  */
 export const utimes = <T extends PathLike>(
 	path: T,
 	atime: string | number | Date,
 	mtime: string | number | Date
-): TaskEither<Error, T> => tryCatch(
+): TaskEither<NodeFsError, T> => tryCatch(
 	() => fsPromises.utimes(path, atime, mtime).then(() => path),
-	(reason: unknown) => toError(reason, "")
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during utimes")
 );
 
-/*
-	TODO:
-		Currently not sure how to handle AsyncIterable
-
-const watch = (
-	filename: PathLike,
-	options?: BufferEncoding | WatchOptions
-) => tryCatch(
-	() => fsPromises.watch(filename, options),
-	(reason: unknown) => toError(reason, "")
-)*/
-
 /**
  * Asynchronously writes data to a file, replacing the file if it already exists.
  * `data` can be a string, a buffer, an:
@@ -625,13 +717,13 @@ const watch = (
  * @param file Path or `FileHandle` of the file to write to.
  * @param data Data to write to the file.
  * @param options Write options.
- * @returns TaskEither that yields `file`, or fails yielding an Error.
+ * @returns TaskEither that yields `file`, or fails yielding a NodeFsError.
  */
 export const writeFile = <T extends (PathLike | FileHandle)>(
 	file: T,
 	data: string | NodeJS.ArrayBufferView | Iterable<string | NodeJS.ArrayBufferView> | AsyncIterable<string | NodeJS.ArrayBufferView> | Stream,
 	options?: BufferEncoding | (ObjectEncodingOptions & { mode?: Mode, flag?: OpenMode } & Abortable)
-): TaskEither<Error, T> => tryCatch(
+): TaskEither<NodeFsError, T> => tryCatch(
 	() => fsPromises.writeFile(file, data, options).then(() => file),
-	(reason: unknown) => toError(reason, "")
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during writeFile")
 );
@@ -0,0 +1,94 @@
+import {
+	left,
+	right
+} from 'fp-ts/lib/Either';
+import {
+	pipe
+} from 'fp-ts/lib/function';
+import * as TE from 'fp-ts/lib/TaskEither';
+import {
+	TaskEither
+} from 'fp-ts/lib/TaskEither';
+import {
+	NodeFsError,
+	foldPartial
+} from './errors';
+import {
+	lstat,
+	readLink,
+	realpath
+} from './promises';
+import {
+	PathEscapeError,
+	isWithin,
+	pure
+} from '../path';
+
+/**
+ * Resolves the symbolic links of a path whose last segments may not exist yet, by resolving its
+ * deepest existing ancestor and appending the remaining segments.
+ * A dangling link is resolved to the path it points to, since creating the path would create
+ * the target of the link.
+ */
+const realpathOfNearest = (
+	p: pure.AbsolutePath
+): TaskEither<NodeFsError, pure.AbsolutePath> => pipe(
+	realpath(p),
+	TE.map((real) => real as pure.AbsolutePath),
+	TE.orElse(foldPartial<TaskEither<NodeFsError, pure.AbsolutePath>>({
+		ENOENT: (e) => pure.dirname(p) === p
+			? TE.left(e)
+			: pipe(
+				lstat(p),
+				TE.chain((stats) => stats.isSymbolicLink() ? followLink(p) : TE.left(e)),
+				TE.orElse(foldPartial<TaskEither<NodeFsError, pure.AbsolutePath>>({
+					ENOENT: () => viaParent(p)
+				}, TE.left))
+			)
+	}, TE.left))
+);
+
+const followLink = (
+	link: pure.AbsolutePath
+): TaskEither<NodeFsError, pure.AbsolutePath> => pipe(
+	realpathOfNearest(pure.dirname(link)),
+	TE.chain((parent) => pipe(
+		readLink(link),
+		TE.chain((target) => realpathOfNearest(pure.resolve(parent, target)))
+	))
+);
+
+const viaParent = (
+	p: pure.AbsolutePath
+): TaskEither<NodeFsError, pure.AbsolutePath> => pipe(
+	realpathOfNearest(pure.dirname(p)),
+	TE.map((parent) => pure.join(parent, pure.basename(p)))
+);
+
+/**
+ * Resolves a path supplied by an untrusted party against a base directory, rejecting it if it
+ * leads outside of that directory once symbolic links are followed, e.g. through a link under
+ * `base` pointing to `/etc`.
+ * The path does not need to exist, in which case the links of its deepest existing ancestor are
+ * followed, so it can be used to validate the path of a file about to be created.
+ * The file system may still change between this check and the use of the path.
+ * @see https://nodejs.org/api/fs.html#fspromisesrealpathpath-options
+ *
+ * @param base Existing directory the path must stay within.
+ * @param userPath Path to resolve against `base`.
+ * @returns TaskEither that yields the real path, or fails yielding a PathEscapeError or a
+ * NodeFsError, e.g. if `base` does not exist.
+ */
+export const resolveWithin = (
+	base: string,
+	userPath: string
+): TaskEither<NodeFsError | PathEscapeError, pure.AbsolutePath> => pipe(
+	realpath(pure.resolve(base)),
+	TE.map((root) => root as pure.AbsolutePath),
+	TE.chainW((root) => pipe(
+		realpathOfNearest(pure.resolve(root, userPath)),
+		TE.chainEitherKW((target) => isWithin(root, target)
+			? right(target)
+			: left<PathEscapeError>({ _tag: 'PathEscapeError', base: root, path: userPath }))
+	))
+);
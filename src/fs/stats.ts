@@ -0,0 +1,194 @@
+import {
+	BigIntStats,
+	PathLike,
+	Stats
+} from 'node:fs';
+import {
+	pipe
+} from 'fp-ts/lib/function';
+import {
+	Predicate
+} from 'fp-ts/lib/Predicate';
+import * as TE from 'fp-ts/lib/TaskEither';
+import {
+	TaskEither
+} from 'fp-ts/lib/TaskEither';
+import {
+	NodeFsError,
+	isENOENT,
+	isENOTDIR
+} from './errors';
+import {
+	lstat,
+	stat
+} from './promises';
+import {
+	TaggedPatterns,
+	foldTagged
+} from '../tagged';
+
+interface FileInfoFields {
+	/** Size in bytes. */
+	readonly size: number;
+	/** File type and permission bits, see `File modes`. */
+	readonly mode: number;
+	readonly uid: number;
+	readonly gid: number;
+	/** Time of the last access. */
+	readonly atime: Date;
+	/** Time of the last change of the contents. */
+	readonly mtime: Date;
+	/** Time of the last change of the contents or of the metadata. */
+	readonly ctime: Date;
+	/** Time of creation, the Unix epoch where not supported. */
+	readonly birthtime: Date;
+}
+
+export interface File extends FileInfoFields {
+	readonly _tag: 'File';
+}
+
+export interface Directory extends FileInfoFields {
+	readonly _tag: 'Directory';
+}
+
+export interface Symlink extends FileInfoFields {
+	readonly _tag: 'Symlink';
+}
+
+/** A block or character device, FIFO or socket. */
+export interface Other extends FileInfoFields {
+	readonly _tag: 'Other';
+}
+
+/**
+ * Type and metadata of a file system entry.
+ */
+export type FileInfo =
+	| File
+	| Directory
+	| Symlink
+	| Other;
+
+/**
+ * Handlers for every case of `FileInfo`.
+ */
+export type Patterns<B> = TaggedPatterns<FileInfo, B>;
+
+/**
+ * Exhaustively pattern matches on a `FileInfo`.
+ */
+export const fold = <B>(
+	patterns: Patterns<B>
+): ((info: FileInfo) => B) => foldTagged<FileInfo, B>(patterns);
+
+/**
+ * Decodes `Stats` or `BigIntStats` into a `FileInfo`.
+ * Sizes beyond `Number.MAX_SAFE_INTEGER` lose precision.
+ *
+ * @param stats Stats to decode.
+ * @returns The FileInfo.
+ */
+export const fromStats = (
+	stats: Stats | BigIntStats
+): FileInfo => {
+	const fields: FileInfoFields = {
+		size: Number(stats.size),
+		mode: Number(stats.mode),
+		uid: Number(stats.uid),
+		gid: Number(stats.gid),
+		atime: stats.atime,
+		mtime: stats.mtime,
+		ctime: stats.ctime,
+		birthtime: stats.birthtime
+	};
+	if (stats.isFile()) {
+		return { _tag: 'File', ...fields };
+	}
+	if (stats.isDirectory()) {
+		return { _tag: 'Directory', ...fields };
+	}
+	if (stats.isSymbolicLink()) {
+		return { _tag: 'Symlink', ...fields };
+	}
+	return { _tag: 'Other', ...fields };
+};
+
+/**
+ * Gets the type and metadata of the entry at `path`, following symbolic links, so the result is
+ * never a `Symlink`.
+ * @see https://nodejs.org/api/fs.html#fspromisesstatpath-options
+ *
+ * @param path Path of the entry.
+ * @returns TaskEither that yields the FileInfo, or fails yielding a NodeFsError.
+ */
+export const fileInfo = (
+	path: PathLike
+): TaskEither<NodeFsError, FileInfo> => pipe(
+	stat(path),
+	TE.map(fromStats)
+);
+
+/**
+ * Gets the type and metadata of the entry at `path`, describing a symbolic link itself rather
+ * than its target.
+ * @see https://nodejs.org/api/fs.html#fspromiseslstatpath-options
+ *
+ * @param path Path of the entry.
+ * @returns TaskEither that yields the FileInfo, or fails yielding a NodeFsError.
+ */
+export const linkInfo = (
+	path: PathLike
+): TaskEither<NodeFsError, FileInfo> => pipe(
+	lstat(path),
+	TE.map(fromStats)
+);
+
+const test = (
+	info: (path: PathLike) => TaskEither<NodeFsError, FileInfo>,
+	predicate: Predicate<FileInfo>
+) => (
+	path: PathLike
+): TaskEither<NodeFsError, boolean> => pipe(
+	info(path),
+	TE.map(predicate),
+	TE.orElse((e) => isENOENT(e) || isENOTDIR(e) ? TE.right(false) : TE.left(e))
+);
+
+/**
+ * Tests whether an entry exists at `path`, following symbolic links, so a dangling link does
+ * not exist.
+ * Only a missing path (`ENOENT` or `ENOTDIR`) yields `false`; any other failure, such as missing
+ * permissions, fails the TaskEither.
+ *
+ * @param path Path to test.
+ * @returns TaskEither that yields whether `path` exists, or fails yielding a NodeFsError.
+ */
+export const exists = test(fileInfo, () => true);
+
+/**
+ * Tests whether `path` is a regular file, or a symbolic link to one.
+ * A missing path yields `false`.
+ *
+ * @param path Path to test.
+ * @returns TaskEither that yields whether `path` is a file, or fails yielding a NodeFsError.
+ */
+export const isFile = test(fileInfo, (info) => info._tag === 'File');
+
+/**
+ * Tests whether `path` is a directory, or a symbolic link to one.
+ * A missing path yields `false`.
+ *
+ * @param path Path to test.
+ * @returns TaskEither that yields whether `path` is a directory, or fails yielding a NodeFsError.
+ */
+export const isDirectory = test(fileInfo, (info) => info._tag === 'Directory');
+
+/**
+ * Tests whether `path` is a symbolic link, whether or not its target exists.
+ * A missing path yields `false`.
+ *
+ * @param path Path to test.
+ * @returns TaskEither that yields whether `path` is a symbolic link, or fails yielding a NodeFsError.
+ */
+export const isSymlink = test(linkInfo, (info) => info._tag === 'Symlink');
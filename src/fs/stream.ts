@@ -0,0 +1,134 @@
+import {
+	PathLike,
+	createReadStream,
+	createWriteStream
+} from 'node:fs';
+import {
+	pipeline
+} from 'node:stream/promises';
+import {
+	Either,
+	isLeft,
+	left,
+	right,
+	tryCatch
+} from 'fp-ts/lib/Either';
+import {
+	pipe
+} from 'fp-ts/lib/function';
+import {
+	TaskEither
+} from 'fp-ts/lib/TaskEither';
+import {
+	NodeFsError,
+	fromUnknown
+} from './errors';
+import {
+	Stream,
+	fromAsyncIterable,
+	lines
+} from '../stream';
+
+/**
+ * Options of `readChunks`.
+ */
+export interface ReadChunksOptions {
+	/** Maximum size of every chunk in bytes, defaults to `65536`. */
+	readonly highWaterMark?: number;
+	/** Offset of the first byte to read, defaults to `0`. */
+	readonly start?: number;
+	/** Offset of the last byte to read, inclusive, defaults to the end of the file. */
+	readonly end?: number;
+	/** Ends the stream with a failure once aborted. */
+	readonly signal?: AbortSignal;
+}
+
+/**
+ * Lazily reads a file chunk by chunk, so that files larger than memory can be processed.
+ * The file is only opened once iteration starts, and closed once it completes, fails or the
+ * consumer stops iterating early.
+ * @see https://nodejs.org/api/fs.html#fscreatereadstreampath-options
+ *
+ * @param path File to read.
+ * @param options Read options.
+ * @returns Stream of the chunks of the file, failing with a NodeFsError.
+ */
+export const readChunks = (
+	path: PathLike,
+	options: ReadChunksOptions = {}
+): Stream<NodeFsError, Buffer> => ({
+	[Symbol.asyncIterator]: async function* () {
+		const onError = (reason: unknown) => fromUnknown(reason, "Unexpected error during readChunks");
+		// Invalid options, e.g. `start` after `end`, throw synchronously.
+		const stream = tryCatch(() => createReadStream(path, options), onError);
+		if (isLeft(stream)) {
+			yield stream;
+			return;
+		}
+		yield* fromAsyncIterable<NodeFsError, Buffer>(stream.right, onError);
+	}
+});
+
+/**
+ * Lazily reads a text file line by line, without line terminators (`\n` or `\r\n`).
+ * Only the current chunk of the file is held in memory.
+ *
+ * @param path File to read.
+ * @param encoding Encoding of the file, defaults to `'utf8'`.
+ * @returns Stream of the lines of the file, failing with a NodeFsError.
+ */
+export const readLines = (
+	path: PathLike,
+	encoding: BufferEncoding = 'utf8'
+): Stream<NodeFsError, string> => pipe(
+	readChunks(path),
+	lines(encoding)
+);
+
+/**
+ * Options of `pipeToFile`.
+ */
+export interface PipeToFileOptions {
+	/** See `support of file system `flags``, defaults to `'w'`; use `'a'` to append. */
+	readonly flags?: string;
+	/** Sets the file mode (permission and sticky bits) if the file is created. */
+	readonly mode?: number;
+	/** Encoding of string chunks, defaults to `'utf8'`. */
+	readonly encoding?: BufferEncoding;
+}
+
+/**
+ * Writes every chunk of a stream to a file, waiting for the file to drain before pulling the next
+ * chunk so that memory usage stays bounded.
+ * When the source fails, the chunks preceding the failure are left written to the file.
+ * @see https://nodejs.org/api/fs.html#fscreatewritestreampath-options
+ *
+ * @param source Stream of the chunks to write.
+ * @param path File to write.
+ * @param options Write options.
+ * @returns TaskEither that yields the path once the file is closed, or fails yielding a
+ * NodeFsError or the error of `source`.
+ */
+export const pipeToFile = <E, T extends PathLike>(
+	source: Stream<E, string | Uint8Array>,
+	path: T,
+	options: PipeToFileOptions = {}
+): TaskEither<NodeFsError | E, T> => async () => {
+	let failure: Either<E, never> | undefined;
+	async function* unwrap() {
+		for await (const chunk of source) {
+			if (isLeft(chunk)) {
+				failure = chunk;
+				return;
+			}
+			yield chunk.right;
+		}
+	}
+
+	try {
+		await pipeline(unwrap(), createWriteStream(path, options));
+	} catch (reason: unknown) {
+		return left(fromUnknown(reason, "Unexpected error during pipeToFile"));
+	}
+	return failure ?? right(path);
+};
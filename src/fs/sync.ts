@@ -0,0 +1,696 @@
+import * as fs from 'node:fs';
+import {
+	BufferEncodingOption,
+	CopyOptions,
+	Dir,
+	Dirent,
+	MakeDirectoryOptions,
+	Mode,
+	ObjectEncodingOptions,
+	OpenDirOptions,
+	OpenMode,
+	PathLike,
+	PathOrFileDescriptor,
+	RmDirOptions,
+	RmOptions,
+	StatOptions,
+	Stats,
+	WriteFileOptions
+} from 'node:fs';
+import {
+	IOEither,
+	bracketW,
+	tryCatch
+} from 'fp-ts/lib/IOEither';
+import {
+	NodeFsError,
+	fromUnknown
+} from './errors';
+
+/**
+ * Synchronously tests a user's permissions for the file or directory specified by `path`.
+ * The `mode` argument should be either the value `fs.constants.F_OK` or a mask consisting of the
+ * bitwise OR of any of `fs.constants.R_OK`,`fs.constants.W_OK`, and `fs.constants.X_OK`.
+ * @see https://nodejs.org/api/fs.html#fsaccesssyncpath-mode
+ *
+ * @param path File or directory path to test permissions.
+ * @param mode Integer that specifies the accessibility checks to be performed.
+ * @returns IOEither that yields the path, or fails yielding a NodeFsError.
+ */
+export const accessSync = <T extends PathLike>(
+	path: T,
+	mode?: number
+): IOEither<NodeFsError, T> => tryCatch(
+	() => {
+		fs.accessSync(path, mode);
+		return path;
+	},
+	(reason: unknown) => fromUnknown(reason, "Unexpected error while accessing path")
+);
+
+/**
+ * Synchronously append data to a file, creating the file if it does not yet exist.
+ * `data` can be a string or a `Buffer`. If `options` is a string, then it specifies the `encoding`.
+ * The `mode` option only affects the newly created file.
+ * @see https://nodejs.org/api/fs.html#fsappendfilesyncpath-data-options
+ *
+ * @param path Filename or file descriptor to append to.
+ * @param data Data to append to the file.
+ * @param options Append options.
+ * @returns IOEither that yields the path, or fails yielding a NodeFsError.
+ */
+export const appendFileSync = <T extends PathOrFileDescriptor>(
+	path: T,
+	data: string | Uint8Array,
+	options?: WriteFileOptions
+): IOEither<NodeFsError, T> => tryCatch(
+	() => {
+		fs.appendFileSync(path, data, options);
+		return path;
+	},
+	(reason: unknown) => fromUnknown(reason, "Unexpected error appending file")
+);
+
+/**
+ * Synchronously changes the permissions of a file.
+ * See the POSIX [`chmod(2)`](https://man7.org/linux/man-pages/man2/chmod.2.html) documentation for more detail.
+ * @see https://nodejs.org/api/fs.html#fschmodsyncpath-mode
+ *
+ * @param path File to change permissions of.
+ * @param mode Numerical bitmask [`File modes`](https://nodejs.org/api/fs.html#file-modes)
+ * @returns IOEither that yields the path, or fails yielding a NodeFsError.
+ */
+export const chmodSync = <T extends PathLike>(
+	path: T,
+	mode: Mode
+): IOEither<NodeFsError, T> => tryCatch(
+	() => {
+		fs.chmodSync(path, mode);
+		return path;
+	},
+	(reason: unknown) => fromUnknown(reason, "Unexpected error while performing chmod")
+);
+
+/**
+ * Synchronously changes the owner and group of a file.
+ * See the POSIX [`chown(2)`](http://man7.org/linux/man-pages/man2/chown.2.html) documentation for more detail.
+ * @see https://nodejs.org/api/fs.html#fschownsyncpath-uid-gid
+ *
+ * @param path File to change ownership of.
+ * @param uid Integer that denotes the user id that corresponds to the owner to be set.
+ * @param gid Integer that denotes the group id that corresponds to the group to be set.
+ * @returns IOEither that yields the path, or fails yielding a NodeFsError.
+ */
+export const chownSync = <T extends PathLike>(
+	path: T,
+	uid: number,
+	gid: number
+): IOEither<NodeFsError, T> => tryCatch(
+	() => {
+		fs.chownSync(path, uid, gid);
+		return path;
+	},
+	(reason: unknown) => fromUnknown(reason, "Unexpected error while performing chown")
+);
+
+/**
+ * Closes the file descriptor.
+ * Calling `closeSync` on any file descriptor that is currently in use through any other `fs`
+ * operation may lead to undefined behavior.
+ * See the POSIX [`close(2)`](http://man7.org/linux/man-pages/man2/close.2.html) documentation for more detail.
+ * @see https://nodejs.org/api/fs.html#fsclosesyncfd
+ *
+ * @param fd File descriptor to close.
+ * @returns IOEither that yields void, or fails yielding a NodeFsError.
+ */
+export const closeSync = (
+	fd: number
+): IOEither<NodeFsError, void> => tryCatch(
+	() => fs.closeSync(fd),
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during close")
+);
+
+/**
+ * Synchronously copies `src` to `dest`.
+ * By default, `dest` is overwritten if it already exists.
+ *
+ * No guarantees are made about the atomicity of the copy operation.
+ * If an error occurs after the destination file has been opened for writing, an attempt will be
+ * made to remove the destination.
+ * @see https://nodejs.org/api/fs.html#fscopyfilesyncsrc-dest-mode
+ *
+ * @param src Source file to copy.
+ * @param dest Destination file of the copy operation.
+ * @param mode Optional modifiers that specify the behavior of the copy operation.
+ * @returns IOEither that yields the destination path, or fails yielding a NodeFsError.
+ */
+export const copyFileSync = <T extends PathLike>(
+	src: PathLike,
+	dest: T,
+	mode?: number
+): IOEither<NodeFsError, T> => tryCatch(
+	() => {
+		fs.copyFileSync(src, dest, mode);
+		return dest;
+	},
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during copyFile")
+);
+
+/**
+ * Synchronously copies the entire directory structure from `src` to `dest`, including
+ * subdirectories and files.
+ *
+ * When copying a directory to another directory, globs are not supported and behavior is similar
+ * to `cp dir1/ dir2/`.
+ * @see https://nodejs.org/api/fs.html#fscpsyncsrc-dest-options
+ * @experimental
+ *
+ * @param src Source path to copy.
+ * @param dest Destination path to copy to.
+ * @param opts Copy options that specify the behavior of this operation.
+ * @returns IOEither that yields the destination path, or fails yielding a NodeFsError.
+ */
+export const cpSync = (
+	src: string,
+	dest: string,
+	opts?: CopyOptions
+): IOEither<NodeFsError, string> => tryCatch(
+	() => {
+		fs.cpSync(src, dest, opts);
+		return dest;
+	},
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during cp")
+);
+
+/**
+ * Synchronously changes the owner and group on a symbolic link.
+ * @see https://nodejs.org/api/fs.html#fslchownsyncpath-uid-gid
+ *
+ * @param path Symbolic link to change ownership of.
+ * @param uid Integer that denotes the user id that corresponds to the owner to be set.
+ * @param gid Integer that denotes the group id that corresponds to the group to be set.
+ * @returns IOEither that yields the path, or fails yielding a NodeFsError.
+ */
+export const lchownSync = <T extends PathLike>(
+	path: T,
+	uid: number,
+	gid: number
+): IOEither<NodeFsError, T> => tryCatch(
+	() => {
+		fs.lchownSync(path, uid, gid);
+		return path;
+	},
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during lchown")
+);
+
+/**
+ * Synchronously changes the access and modification times of a file in the same way as
+ * `utimesSync`, with the difference that if the path refers to a symbolic link, then the link is
+ * not dereferenced: instead, the timestamps of the symbolic link itself are changed.
+ * @see https://nodejs.org/api/fs.html#fslutimessyncpath-atime-mtime
+ *
+ * @param path File or symbolic link to change access and modification times of.
+ * @param atime Access time.
+ * @param mtime Modification time.
+ * @returns IOEither that yields the path, or fails yielding a NodeFsError.
+ */
+export const lutimesSync = <T extends PathLike>(
+	path: T,
+	atime: string | number | Date,
+	mtime: string | number | Date
+): IOEither<NodeFsError, T> => tryCatch(
+	() => {
+		fs.lutimesSync(path, atime, mtime);
+		return path;
+	},
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during lutimes")
+);
+
+/**
+ * Synchronously creates a new link from the `existingPath` to the `newPath`.
+ * See the POSIX [`link(2)`](http://man7.org/linux/man-pages/man2/link.2.html) documentation for
+ * more detail.
+ * @see https://nodejs.org/api/fs.html#fslinksyncexistingpath-newpath
+ *
+ * @param existingPath Existing path to create a link from.
+ * @param newPath Path to create the link to.
+ * @returns IOEither that yields the new path, or fails yielding a NodeFsError.
+ */
+export const linkSync = <T extends PathLike>(
+	existingPath: PathLike,
+	newPath: T
+): IOEither<NodeFsError, T> => tryCatch(
+	() => {
+		fs.linkSync(existingPath, newPath);
+		return newPath;
+	},
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during link")
+);
+
+/**
+ * Equivalent to `statSync` unless `path` refers to a symbolic link, in which case the link itself
+ * is stat-ed, not the file that it refers to.
+ * Refer to the POSIX [`lstat(2)`](http://man7.org/linux/man-pages/man2/lstat.2.html) document for
+ * more detail.
+ * @see https://nodejs.org/api/fs.html#fslstatsyncpath-options
+ *
+ * @param path Path of file or link to stat.
+ * @param options Stat options.
+ * @returns IOEither that yields Stats, or fails yielding a NodeFsError.
+ */
+export const lstatSync = (
+	path: PathLike,
+	options?: StatOptions & { bigint?: false }
+): IOEither<NodeFsError, Stats> => tryCatch(
+	() => fs.lstatSync(path, options),
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during lstat")
+);
+
+/**
+ * Synchronously creates a directory.
+ *
+ * The optional `options` argument can be an integer specifying `mode` (permission and sticky bits),
+ * or an object with a `mode` property and a `recursive` property indicating whether parent
+ * directories should be created.
+ * @see https://nodejs.org/api/fs.html#fsmkdirsyncpath-options
+ *
+ * @param path Path of the directory to create.
+ * @param options Either the file mode, or an optional object of mkdir options.
+ * @returns IOEither that yields the path, or fails yielding a NodeFsError.
+ */
+export const mkdirSync = <T extends PathLike>(
+	path: T,
+	options?: Mode | (MakeDirectoryOptions & { recursive?: boolean })
+): IOEither<NodeFsError, T> => tryCatch(
+	() => {
+		fs.mkdirSync(path, options);
+		return path;
+	},
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during mkdir")
+);
+
+/**
+ * Synchronously creates a unique temporary directory.
+ * A unique directory name is generated by appending six random characters to the end of the
+ * provided `prefix`.
+ * @see https://nodejs.org/api/fs.html#fsmkdtempsyncprefix-options
+ *
+ * @param prefix Prefix of the directory to create.
+ * @param options Encoding options.
+ * @returns IOEither that yields the filesystem path of the newly created temporary directory
+ * (a `Buffer` if the `encoding` is `'buffer'`, a string otherwise), or fails yielding a NodeFsError.
+ */
+export function mkdtempSync(
+	prefix: string,
+	options?: ObjectEncodingOptions | BufferEncoding | null
+): IOEither<NodeFsError, string>;
+export function mkdtempSync(
+	prefix: string,
+	options: BufferEncodingOption
+): IOEither<NodeFsError, Buffer>;
+export function mkdtempSync(
+	prefix: string,
+	options?: ObjectEncodingOptions | BufferEncoding | null
+): IOEither<NodeFsError, string | Buffer>;
+export function mkdtempSync(
+	prefix: string,
+	options?: ObjectEncodingOptions | BufferEncoding | BufferEncodingOption | null
+): IOEither<NodeFsError, string | Buffer> {
+	return tryCatch(
+		() => fs.mkdtempSync(prefix, options as ObjectEncodingOptions),
+		(reason: unknown) => fromUnknown(reason, "Unexpected error during mkdtemp")
+	);
+}
+
+/**
+ * Synchronously opens a file descriptor.
+ * Refer to the POSIX [`open(2)`](http://man7.org/linux/man-pages/man2/open.2.html) documentation for more detail.
+ *
+ * The caller is responsible for closing the returned file descriptor, see `withFileDescriptorSync`.
+ * @see https://nodejs.org/api/fs.html#fsopensyncpath-flags-mode
+ *
+ * @param path Path of file to open.
+ * @param flags See `support of file system `flags``, defaults to `'r'`.
+ * @param mode Sets the file mode (permission and sticky bits) if the file is created.
+ * @returns IOEither that yields the file descriptor, or fails yielding a NodeFsError.
+ */
+export const openSync = (
+	path: PathLike,
+	flags: OpenMode = 'r',
+	mode?: Mode
+): IOEither<NodeFsError, number> => tryCatch(
+	() => fs.openSync(path, flags, mode),
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during open")
+);
+
+/**
+ * Opens a file descriptor for the duration of `use`, closing it once `use` completes whether it
+ * succeeded or failed.
+ * @see https://nodejs.org/api/fs.html#fsopensyncpath-flags-mode
+ *
+ * @param path Path of file to open.
+ * @param flags See `support of file system `flags``, defaults to `'r'`.
+ * @param mode Sets the file mode (permission and sticky bits) if the file is created.
+ * @returns A function that takes the program using the file descriptor and returns an IOEither
+ * that yields its result, or fails yielding a NodeFsError or the error of `use`.
+ */
+export const withFileDescriptorSync = (
+	path: PathLike,
+	flags?: OpenMode,
+	mode?: Mode
+) => <E, B>(
+	use: (fd: number) => IOEither<E, B>
+): IOEither<NodeFsError | E, B> => bracketW(
+	openSync(path, flags, mode),
+	use,
+	(fd) => closeSync(fd)
+);
+
+/**
+ * Synchronously open a directory for iterative scanning.
+ * See the POSIX [`opendir(3)`](http://man7.org/linux/man-pages/man3/opendir.3.html) documentation for more detail.
+ * The caller is responsible for closing the returned `fs.Dir`.
+ * @see https://nodejs.org/api/fs.html#fsopendirsyncpath-options
+ *
+ * @param path Path of dir to open.
+ * @param options opendir options.
+ * @returns IOEither that yields a Dir object, or fails yielding a NodeFsError.
+ */
+export const opendirSync = (
+	path: PathLike,
+	options?: OpenDirOptions
+): IOEither<NodeFsError, Dir> => tryCatch(
+	() => fs.opendirSync(path, options),
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during opendir")
+);
+
+/**
+ * Synchronously reads the contents of a directory.
+ * See the POSIX [`readdir(3)`](https://man7.org/linux/man-pages/man3/readdir.3.html) documentation for more detail.
+ *
+ * If the `encoding` is set to `'buffer'`, the filenames returned will be passed as `Buffer` objects.
+ * If `options.withFileTypes` is set to `true`, the result will contain `fs.Dirent` objects.
+ * @see https://nodejs.org/api/fs.html#fsreaddirsyncpath-options
+ *
+ * @param path Path of the directory to read.
+ * @param options The encoding (or an object specifying the encoding), used as the encoding of the result. If not provided, `'utf8'` is used.
+ * @returns IOEither that yields a Dirent[] (if `options.withFileTypes` is set to `true`), a Buffer[] (if the `encoding` is `'buffer'`) or a string[], or fails yielding a NodeFsError.
+ */
+export function readdirSync(
+	path: PathLike,
+	options?: (ObjectEncodingOptions & { withFileTypes?: false }) | BufferEncoding | null
+): IOEither<NodeFsError, string[]>;
+export function readdirSync(
+	path: PathLike,
+	options: { encoding: 'buffer', withFileTypes?: false } | 'buffer'
+): IOEither<NodeFsError, Buffer[]>;
+export function readdirSync(
+	path: PathLike,
+	options: ObjectEncodingOptions & { withFileTypes: true }
+): IOEither<NodeFsError, Dirent[]>;
+export function readdirSync(
+	path: PathLike,
+	options?: (ObjectEncodingOptions & { withFileTypes?: boolean }) | BufferEncoding | null
+): IOEither<NodeFsError, string[] | Buffer[] | Dirent[]>;
+export function readdirSync(
+	path: PathLike,
+	options?: (ObjectEncodingOptions & { withFileTypes?: boolean }) | BufferEncoding | BufferEncodingOption | null
+): IOEither<NodeFsError, string[] | Buffer[] | Dirent[]> {
+	return tryCatch(
+		() => fs.readdirSync(path, options as ObjectEncodingOptions & { withFileTypes: true }),
+		(reason: unknown) => fromUnknown(reason, "Unexpected error during readdir")
+	);
+}
+
+/**
+ * Synchronously reads the entire contents of a file.
+ *
+ * If no encoding is specified (using `options.encoding`), the data is returned as a `Buffer` object.
+ * Otherwise, the data will be a string.
+ * If `options` is a string, then it specifies the encoding.
+ * @see https://nodejs.org/api/fs.html#fsreadfilesyncpath-options
+ *
+ * @param path Filename or file descriptor.
+ * @param options Read file options.
+ * @returns IOEither that yields the data of the file (a string if an encoding is specified, a Buffer otherwise), or fails yielding a NodeFsError.
+ */
+export function readFileSync(
+	path: PathOrFileDescriptor,
+	options?: { encoding?: null, flag?: string } | null
+): IOEither<NodeFsError, Buffer>;
+export function readFileSync(
+	path: PathOrFileDescriptor,
+	options: { encoding: BufferEncoding, flag?: string } | BufferEncoding
+): IOEither<NodeFsError, string>;
+export function readFileSync(
+	path: PathOrFileDescriptor,
+	options?: (ObjectEncodingOptions & { flag?: string }) | BufferEncoding | null
+): IOEither<NodeFsError, string | Buffer>;
+export function readFileSync(
+	path: PathOrFileDescriptor,
+	options?: (ObjectEncodingOptions & { flag?: string }) | BufferEncoding | null
+): IOEither<NodeFsError, string | Buffer> {
+	return tryCatch(
+		() => fs.readFileSync(path, options),
+		(reason: unknown) => fromUnknown(reason, "Unexpected error during readFile")
+	);
+}
+
+/**
+ * Synchronously reads the contents of the symbolic link referred to by `path`.
+ * See the POSIX [`readlink(2)`](http://man7.org/linux/man-pages/man2/readlink.2.html) documentation
+ * for more detail.
+ * If the `encoding` is set to `'buffer'`, the link path returned will be passed as a `Buffer`
+ * object.
+ * @see https://nodejs.org/api/fs.html#fsreadlinksyncpath-options
+ *
+ * @param path Path of symbolic link to read.
+ * @param options Encoding options.
+ * @returns IOEither that yields the string or Buffer object that contains the symbolic link's string value, or fails yielding a NodeFsError.
+ */
+export function readLinkSync(
+	path: PathLike,
+	options?: ObjectEncodingOptions | BufferEncoding | null
+): IOEither<NodeFsError, string>;
+export function readLinkSync(
+	path: PathLike,
+	options: BufferEncodingOption
+): IOEither<NodeFsError, Buffer>;
+export function readLinkSync(
+	path: PathLike,
+	options?: ObjectEncodingOptions | BufferEncoding | null
+): IOEither<NodeFsError, string | Buffer>;
+export function readLinkSync(
+	path: PathLike,
+	options?: ObjectEncodingOptions | BufferEncoding | BufferEncodingOption | null
+): IOEither<NodeFsError, string | Buffer> {
+	return tryCatch(
+		() => fs.readlinkSync(path, options as ObjectEncodingOptions),
+		(reason: unknown) => fromUnknown(reason, "Unexpected error during readLink")
+	);
+}
+
+/**
+ * Synchronously computes the canonical pathname by resolving `.`, `..` and symbolic links.
+ * If the `encoding` is set to `'buffer'`, the path returned will be passed as a `Buffer` object.
+ * @see https://nodejs.org/api/fs.html#fsrealpathsyncpath-options
+ *
+ * @param path Path to be resolved.
+ * @param options Realpath options.
+ * @returns IOEither that yields the string or Buffer of the actual location of `path`, or fails yielding a NodeFsError.
+ */
+export function realpathSync(
+	path: PathLike,
+	options?: ObjectEncodingOptions | BufferEncoding | null
+): IOEither<NodeFsError, string>;
+export function realpathSync(
+	path: PathLike,
+	options: BufferEncodingOption
+): IOEither<NodeFsError, Buffer>;
+export function realpathSync(
+	path: PathLike,
+	options?: ObjectEncodingOptions | BufferEncoding | null
+): IOEither<NodeFsError, string | Buffer>;
+export function realpathSync(
+	path: PathLike,
+	options?: ObjectEncodingOptions | BufferEncoding | BufferEncodingOption | null
+): IOEither<NodeFsError, string | Buffer> {
+	return tryCatch(
+		() => fs.realpathSync(path, options as ObjectEncodingOptions),
+		(reason: unknown) => fromUnknown(reason, "Unexpected error during realpath")
+	);
+}
+
+/**
+ * Synchronously renames `oldPath` to `newPath`.
+ * This will overwrite the destination file if it exists.
+ * @see https://nodejs.org/api/fs.html#fsrenamesyncoldpath-newpath
+ *
+ * @param oldPath Path to rename.
+ * @param newPath New file path.
+ * @returns IOEither that yields the `newPath`, or fails yielding a NodeFsError.
+ */
+export const renameSync = <T extends PathLike>(
+	oldPath: PathLike,
+	newPath: T
+): IOEither<NodeFsError, T> => tryCatch(
+	() => {
+		fs.renameSync(oldPath, newPath);
+		return newPath;
+	},
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during rename")
+);
+
+/**
+ * Synchronously removes the directory identified by `path`.
+ *
+ * To get a behavior similar to the `rm -rf` Unix command, use `rmSync` with options
+ * `{ recursive: true, force: true }`.
+ * @see https://nodejs.org/api/fs.html#fsrmdirsyncpath-options
+ *
+ * @param path Path of directory to remove.
+ * @param options rmdir options.
+ * @returns IOEither that yields void, or fails yielding a NodeFsError.
+ */
+export const rmdirSync = (
+	path: PathLike,
+	options?: RmDirOptions
+): IOEither<NodeFsError, void> => tryCatch(
+	() => fs.rmdirSync(path, options),
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during rmdir")
+);
+
+/**
+ * Synchronously removes files and directories (modeled on the standard POSIX `rm` utility).
+ * @see https://nodejs.org/api/fs.html#fsrmsyncpath-options
+ *
+ * @param path Path to remove.
+ * @param options rm options.
+ * @returns IOEither that yields void, or fails yielding a NodeFsError.
+ */
+export const rmSync = (
+	path: PathLike,
+	options?: RmOptions
+): IOEither<NodeFsError, void> => tryCatch(
+	() => fs.rmSync(path, options),
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during rm")
+);
+
+/**
+ * Synchronously retrieves informations about the given file or directory.
+ * @see https://nodejs.org/api/fs.html#fsstatsyncpath-options
+ *
+ * @param path Path to stat.
+ * @param options Stat options.
+ * @returns IOEither that yields the Stats, or fails yielding a NodeFsError.
+ */
+export const statSync = (
+	path: PathLike,
+	options?: (StatOptions & { bigint?: false })
+): IOEither<NodeFsError, Stats> => tryCatch(
+	() => fs.statSync(path, options),
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during stat")
+);
+
+/**
+ * Synchronously creates a symbolic link.
+ *
+ * The `type` argument is only used on Windows platforms and can be one of `'dir'`,`'file'`, or
+ * `'junction'`.
+ * @see https://nodejs.org/api/fs.html#fssymlinksynctarget-path-type
+ *
+ * @param target Path to which the symlink has to be created.
+ * @param path Path to where the symlink will be created.
+ * @param type Represents the type of symlink to be created.
+ * @returns IOEither that yields the `path` where the symlink was created, or fails yielding a NodeFsError.
+ */
+export const symlinkSync = <T extends PathLike>(
+	target: PathLike,
+	path: T,
+	type?: 'dir' | 'file' | 'junction'
+): IOEither<NodeFsError, T> => tryCatch(
+	() => {
+		fs.symlinkSync(target, path, type);
+		return path;
+	},
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during symlink")
+);
+
+/**
+ * Synchronously truncates (shortens or extends the length) of the content at `path` to `len` bytes.
+ * @see https://nodejs.org/api/fs.html#fstruncatesyncpath-len
+ *
+ * @param path Path of file to truncate.
+ * @param length Number of bytes.
+ * @returns IOEither that yields the `path`, or fails yielding a NodeFsError.
+ */
+export const truncateSync = <T extends PathLike>(
+	path: T,
+	length?: number
+): IOEither<NodeFsError, T> => tryCatch(
+	() => {
+		fs.truncateSync(path, length);
+		return path;
+	},
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during truncate")
+);
+
+/**
+ * Synchronously removes a file or symbolic link.
+ * See the POSIX [`unlink(2)`](http://man7.org/linux/man-pages/man2/unlink.2.html) documentation for
+ * more detail.
+ * @see https://nodejs.org/api/fs.html#fsunlinksyncpath
+ *
+ * @param path Path of file or symbolic link to remove.
+ * @returns IOEither that yields void, or fails yielding a NodeFsError.
+ */
+export const unlinkSync = (
+	path: PathLike
+): IOEither<NodeFsError, void> => tryCatch(
+	() => fs.unlinkSync(path),
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during unlink")
+);
+
+/**
+ * Synchronously changes the file system timestamps of the object referenced by `path`.
+ * @see https://nodejs.org/api/fs.html#fsutimessyncpath-atime-mtime
+ *
+ * @param path File or symbolic link to change access and modification times of.
+ * @param atime Access time.
+ * @param mtime Modification time.
+ * @returns IOEither that yields the `path`, or fails yielding a NodeFsError.
+ */
+export const utimesSync = <T extends PathLike>(
+	path: T,
+	atime: string | number | Date,
+	mtime: string | number | Date
+): IOEither<NodeFsError, T> => tryCatch(
+	() => {
+		fs.utimesSync(path, atime, mtime);
+		return path;
+	},
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during utimes")
+);
+
+/**
+ * Synchronously writes data to a file, replacing the file if it already exists.
+ * The `encoding` option is ignored if `data` is a buffer.
+ * The `mode` option only affects the newly created file.
+ * @see https://nodejs.org/api/fs.html#fswritefilesyncfile-data-options
+ *
+ * @param file Filename or file descriptor of the file to write to.
+ * @param data Data to write to the file.
+ * @param options Write options.
+ * @returns IOEither that yields `file`, or fails yielding a NodeFsError.
+ */
+export const writeFileSync = <T extends PathOrFileDescriptor>(
+	file: T,
+	data: string | NodeJS.ArrayBufferView,
+	options?: WriteFileOptions
+): IOEither<NodeFsError, T> => tryCatch(
+	() => {
+		fs.writeFileSync(file, data, options);
+		return file;
+	},
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during writeFile")
+);
@@ -0,0 +1,317 @@
+import path from 'node:path';
+import {
+	Either,
+	isLeft,
+	right
+} from 'fp-ts/lib/Either';
+import {
+	TaskEither
+} from 'fp-ts/lib/TaskEither';
+import {
+	NodeFsError
+} from './errors';
+import {
+	hashFile
+} from './hash';
+import {
+	copyFile,
+	mkdir,
+	readLink,
+	rm,
+	symlink,
+	utimes
+} from './promises';
+import {
+	FileInfo,
+	linkInfo
+} from './stats';
+import {
+	walk
+} from './walk';
+
+/**
+ * Type of an entry compared by `syncDir`.
+ */
+export type EntryType = 'File' | 'Directory' | 'Symlink';
+
+/** The entry only exists in the source. */
+export interface Added {
+	readonly _tag: 'Added';
+	readonly path: string;
+	readonly type: EntryType;
+}
+
+/** The entry exists in both trees, with different contents or link targets. */
+export interface Modified {
+	readonly _tag: 'Modified';
+	readonly path: string;
+	readonly type: EntryType;
+}
+
+/** The entry only exists in the destination. */
+export interface Removed {
+	readonly _tag: 'Removed';
+	readonly path: string;
+	readonly type: EntryType;
+}
+
+/** The entry exists in both trees, with a different type, e.g. a file replaced by a directory. */
+export interface TypeChanged {
+	readonly _tag: 'TypeChanged';
+	readonly path: string;
+	readonly from: EntryType;
+	readonly to: EntryType;
+}
+
+/**
+ * Difference between the source and destination trees, `path` being relative to their roots and
+ * using `/` as separator.
+ */
+export type SyncChange =
+	| Added
+	| Modified
+	| Removed
+	| TypeChanged;
+
+/**
+ * Options of `syncDir`.
+ */
+export interface SyncDirOptions {
+	/**
+	 * How files present in both trees are compared, defaults to `'mtime'`:
+	 * - `'size'`: files of equal size are unchanged,
+	 * - `'mtime'`: files of equal size and modification time are unchanged,
+	 * - `'hash'`: files of equal size and SHA-256 digest are unchanged, reading both files.
+	 */
+	readonly compare?: 'mtime' | 'size' | 'hash';
+	/** Remove entries of the destination that are not in the source, defaults to `false`. */
+	readonly delete?: boolean;
+	/** Compute the changes without applying them, defaults to `false`. */
+	readonly dryRun?: boolean;
+}
+
+/**
+ * Outcome of `syncDir`.
+ */
+export interface SyncReport {
+	/** Changes applied, or that would be applied by a dry run, parents before their contents. */
+	readonly changes: ReadonlyArray<SyncChange>;
+	readonly added: number;
+	readonly modified: number;
+	readonly removed: number;
+	readonly typeChanged: number;
+	/** Entries of the source found identical in the destination. */
+	readonly unchanged: number;
+	/** Size of the files copied, or that would be copied by a dry run. */
+	readonly bytesCopied: number;
+	readonly dryRun: boolean;
+}
+
+interface Snapshot {
+	readonly info: FileInfo & { readonly _tag: EntryType };
+	/** Target of a symbolic link. */
+	readonly target?: string;
+}
+
+const isSynced = (
+	info: FileInfo
+): info is FileInfo & { readonly _tag: EntryType } => info._tag !== 'Other';
+
+/**
+ * Lists the entries under `root` by relative path, without following symbolic links.
+ * Block and character devices, FIFOs and sockets are left out.
+ */
+const scan = (
+	root: string
+): TaskEither<NodeFsError, Map<string, Snapshot>> => async () => {
+	const entries = new Map<string, Snapshot>();
+	for await (const entry of walk(root)) {
+		if (isLeft(entry)) {
+			return entry;
+		}
+		const info = await linkInfo(entry.right.path)();
+		if (isLeft(info)) {
+			return info;
+		}
+		if (!isSynced(info.right)) {
+			continue;
+		}
+		let target: string | undefined;
+		if (info.right._tag === 'Symlink') {
+			const link = await readLink(entry.right.path)();
+			if (isLeft(link)) {
+				return link;
+			}
+			target = link.right;
+		}
+		entries.set(path.relative(root, entry.right.path).split(path.sep).join('/'), { info: info.right, target });
+	}
+	return right(entries);
+};
+
+/** Sorts entries by path, so that directories come before their contents. */
+const byPath = (
+	[a]: readonly [string, unknown],
+	[b]: readonly [string, unknown]
+) => a < b ? -1 : a > b ? 1 : 0;
+
+const ancestorsOf = (
+	relative: string
+) => relative.split('/').slice(0, -1).map((_, i, segments) => segments.slice(0, i + 1).join('/'));
+
+/**
+ * Mirrors the tree under `src` to `dest`, only copying the entries that changed, e.g. to deploy
+ * assets without copying those already up to date.
+ *
+ * Files are copied with `copyFile` and given the modification time of their source, so that
+ * comparing by `'mtime'` finds them unchanged on the next run. Symbolic links are recreated with
+ * the same target rather than followed. Removals, including entries whose type changed, are
+ * applied first, then additions and modifications, parents before their contents.
+ * `dest` is created if it does not exist.
+ *
+ * @param src Directory to mirror.
+ * @param dest Directory to update.
+ * @param options Sync options.
+ * @returns TaskEither that yields the SyncReport, or fails yielding a NodeFsError; changes applied
+ * before a failure are kept.
+ */
+export const syncDir = (
+	src: string,
+	dest: string,
+	options: SyncDirOptions = {}
+): TaskEither<NodeFsError, SyncReport> => async () => {
+	const { compare = 'mtime', delete: remove = false, dryRun = false } = options;
+
+	const source = await scan(src)();
+	if (isLeft(source)) {
+		return source;
+	}
+	const destRoot = await linkInfo(dest)();
+	const destination = isLeft(destRoot) && destRoot.left._tag === 'ENOENT'
+		? right(new Map<string, Snapshot>())
+		: await scan(dest)();
+	if (isLeft(destination)) {
+		return destination;
+	}
+
+	const isModified = async (
+		relative: string,
+		from: Snapshot,
+		to: Snapshot
+	): Promise<Either<NodeFsError, boolean>> => {
+		switch (from.info._tag) {
+			case 'Directory':
+				return right(false);
+			case 'Symlink':
+				return right(from.target !== to.target);
+			case 'File': {
+				if (from.info.size !== to.info.size || compare === 'size') {
+					return right(from.info.size !== to.info.size);
+				}
+				if (compare === 'mtime') {
+					return right(from.info.mtime.getTime() !== to.info.mtime.getTime());
+				}
+				const [a, b] = await Promise.all([
+					hashFile(path.join(src, relative))(),
+					hashFile(path.join(dest, relative))()
+				]);
+				return isLeft(a) ? a : isLeft(b) ? b : right(a.right !== b.right);
+			}
+		}
+	};
+
+	const changes: Array<SyncChange> = [];
+	let unchanged = 0;
+	for (const [relative, from] of Array.from(source.right).sort(byPath)) {
+		const to = destination.right.get(relative);
+		if (to === undefined) {
+			changes.push({ _tag: 'Added', path: relative, type: from.info._tag });
+		} else if (to.info._tag !== from.info._tag) {
+			changes.push({ _tag: 'TypeChanged', path: relative, from: to.info._tag, to: from.info._tag });
+		} else {
+			const modified = await isModified(relative, from, to);
+			if (isLeft(modified)) {
+				return modified;
+			}
+			if (modified.right) {
+				changes.push({ _tag: 'Modified', path: relative, type: from.info._tag });
+			} else {
+				unchanged++;
+			}
+		}
+	}
+
+	if (remove) {
+		// Entries under a removed directory, or under a directory replaced by another type, go with it.
+		const covering = new Set(changes.reduce<Array<string>>((paths, change) => change._tag === 'TypeChanged' && change.from === 'Directory'
+			? paths.concat(change.path)
+			: paths, []));
+		const removed: Array<Removed> = [];
+		for (const [relative, to] of Array.from(destination.right).sort(byPath)) {
+			if (source.right.has(relative) || ancestorsOf(relative).some((ancestor) => covering.has(ancestor))) {
+				continue;
+			}
+			removed.push({ _tag: 'Removed', path: relative, type: to.info._tag });
+			if (to.info._tag === 'Directory') {
+				covering.add(relative);
+			}
+		}
+		changes.unshift(...removed);
+	}
+
+	const bytesCopied = changes.reduce((total, change) => {
+		const from = change._tag === 'Removed' ? undefined : source.right.get(change.path);
+		return from?.info._tag === 'File' ? total + from.info.size : total;
+	}, 0);
+	const report: SyncReport = {
+		changes,
+		added: changes.filter((c) => c._tag === 'Added').length,
+		modified: changes.filter((c) => c._tag === 'Modified').length,
+		removed: changes.filter((c) => c._tag === 'Removed').length,
+		typeChanged: changes.filter((c) => c._tag === 'TypeChanged').length,
+		unchanged,
+		bytesCopied,
+		dryRun
+	};
+	if (dryRun) {
+		return right(report);
+	}
+
+	const created = await mkdir(dest, { recursive: true })();
+	if (isLeft(created)) {
+		return created;
+	}
+	for (const change of changes) {
+		const target = path.join(dest, change.path);
+		if (change._tag === 'Removed' || change._tag === 'TypeChanged' || (change._tag === 'Modified' && change.type === 'Symlink')) {
+			const removed = await rm(target, { recursive: true, force: true })();
+			if (isLeft(removed)) {
+				return removed;
+			}
+		}
+		if (change._tag === 'Removed') {
+			continue;
+		}
+
+		const from = source.right.get(change.path) as Snapshot;
+		const origin = path.join(src, change.path);
+		let applied: Either<NodeFsError, unknown>;
+		switch (from.info._tag) {
+			case 'Directory':
+				applied = await mkdir(target)();
+				break;
+			case 'Symlink':
+				applied = await symlink(from.target as string, target)();
+				break;
+			case 'File': {
+				const copied = await copyFile(origin, target)();
+				applied = isLeft(copied) ? copied : await utimes(target, from.info.atime, from.info.mtime)();
+				break;
+			}
+		}
+		if (isLeft(applied)) {
+			return applied;
+		}
+	}
+	return right(report);
+};
@@ -0,0 +1,84 @@
+import os from 'node:os';
+import path from 'node:path';
+import {
+	isLeft
+} from 'fp-ts/lib/Either';
+import {
+	pipe
+} from 'fp-ts/lib/function';
+import * as TE from 'fp-ts/lib/TaskEither';
+import {
+	TaskEither,
+	bracketW
+} from 'fp-ts/lib/TaskEither';
+import {
+	NodeFsError
+} from './errors';
+import {
+	mkdtemp,
+	rm,
+	writeFile
+} from './promises';
+
+/**
+ * Options of `withTempDir`.
+ */
+export interface TempDirOptions {
+	/** Leave the directory in place when `use` fails, for debugging, defaults to `false`. */
+	readonly keepOnFailure?: boolean;
+}
+
+/**
+ * Options of `withTempFile`.
+ */
+export interface TempFileOptions extends TempDirOptions {
+	/** Name of the file, e.g. `'config.json'`, defaults to `'tmp'`. */
+	readonly name?: string;
+	/** Initial contents of the file, empty by default. */
+	readonly data?: string | Uint8Array;
+}
+
+/**
+ * Creates a uniquely named directory under `os.tmpdir()` for the duration of `use`, removing it
+ * and all of its contents once `use` completes whether it succeeded or failed.
+ * @see https://nodejs.org/api/fs.html#fspromisesmkdtempprefix-options
+ *
+ * @param prefix Prefix of the name of the directory, to which random characters are appended.
+ * @param options Temporary directory options.
+ * @returns A function that takes the program using the directory and returns a TaskEither that
+ * yields its result, or fails yielding a NodeFsError or the error of `use`.
+ */
+export const withTempDir = (
+	prefix = 'tmp-',
+	options: TempDirOptions = {}
+) => <E, B>(
+	use: (directory: string) => TaskEither<E, B>
+): TaskEither<NodeFsError | E, B> => bracketW(
+	mkdtemp(path.join(os.tmpdir(), prefix)),
+	use,
+	(directory, result) => options.keepOnFailure === true && isLeft(result)
+		? TE.right(undefined)
+		: rm(directory, { recursive: true, force: true })
+);
+
+/**
+ * Creates a file under `os.tmpdir()` for the duration of `use`, removing it once `use` completes
+ * whether it succeeded or failed.
+ * The file is created in a uniquely named directory of its own, so its name is predictable while
+ * not clashing with other temporary files.
+ *
+ * @param options Temporary file options.
+ * @returns A function that takes the program using the path of the file and returns a TaskEither
+ * that yields its result, or fails yielding a NodeFsError or the error of `use`.
+ */
+export const withTempFile = (
+	options: TempFileOptions = {}
+) => <E, B>(
+	use: (file: string) => TaskEither<E, B>
+): TaskEither<NodeFsError | E, B> => {
+	const { name = 'tmp', data = '', keepOnFailure } = options;
+	return withTempDir('tmp-', { keepOnFailure })((directory) => pipe(
+		writeFile(path.join(directory, name), data, { flag: 'wx' }),
+		TE.chainW(use)
+	));
+};
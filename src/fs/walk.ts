@@ -0,0 +1,151 @@
+import {
+	Dirent
+} from 'node:fs';
+import path from 'node:path';
+import {
+	Either,
+	isLeft,
+	left,
+	right
+} from 'fp-ts/lib/Either';
+import {
+	Predicate
+} from 'fp-ts/lib/Predicate';
+import {
+	NodeFsError,
+	fromUnknown
+} from './errors';
+import {
+	opendir,
+	realpath,
+	stat
+} from './promises';
+import {
+	Stream
+} from '../stream';
+
+/**
+ * An entry found while walking a directory tree.
+ */
+export interface WalkEntry {
+	/** Path of the entry, `root` joined with the names of its ancestors. */
+	readonly path: string;
+	readonly dirent: Dirent;
+	/** Depth of the entry, `1` for the entries of `root`. */
+	readonly depth: number;
+}
+
+/**
+ * Options of `walk`.
+ */
+export interface WalkOptions {
+	/** Deepest level yielded, defaults to `Infinity`. */
+	readonly maxDepth?: number;
+	/**
+	 * Descend into symbolic links to directories, defaults to `false`.
+	 * Links leading back to one of their ancestor directories are not followed.
+	 */
+	readonly followSymlinks?: boolean;
+	/** Only entries satisfying this predicate are yielded, all entries are by default. */
+	readonly filter?: Predicate<WalkEntry>;
+	/** The contents of directories satisfying this predicate are skipped, none are by default. */
+	readonly prune?: Predicate<WalkEntry>;
+}
+
+type WalkGenerator = AsyncGenerator<Either<NodeFsError, WalkEntry>, boolean>;
+
+const isDirectory = async (
+	entry: WalkEntry,
+	followSymlinks: boolean
+): Promise<boolean> => {
+	if (entry.dirent.isDirectory()) {
+		return true;
+	}
+	if (!followSymlinks || !entry.dirent.isSymbolicLink()) {
+		return false;
+	}
+	const stats = await stat(entry.path)();
+	return !isLeft(stats) && stats.right.isDirectory();
+};
+
+/**
+ * Yields the entries of `directory` and of its descendants.
+ * Returns `false` once a failure has been yielded, so the callers stop walking.
+ */
+async function* visit(
+	directory: string,
+	depth: number,
+	options: WalkOptions,
+	ancestors: ReadonlySet<string>
+): WalkGenerator {
+	const { maxDepth = Infinity, followSymlinks = false, filter = () => true, prune = () => false } = options;
+
+	const dir = await opendir(directory)();
+	if (isLeft(dir)) {
+		yield dir;
+		return false;
+	}
+
+	// Iterating the Dir closes it, including when the iteration is interrupted.
+	try {
+		for await (const dirent of dir.right) {
+			const entry: WalkEntry = { path: path.join(directory, dirent.name), dirent, depth };
+			if (filter(entry)) {
+				yield right(entry);
+			}
+			if (depth >= maxDepth || prune(entry) || !(await isDirectory(entry, followSymlinks))) {
+				continue;
+			}
+
+			let real = entry.path;
+			if (followSymlinks) {
+				const resolved = await realpath(entry.path)();
+				if (isLeft(resolved)) {
+					yield resolved;
+					return false;
+				}
+				real = resolved.right;
+				if (ancestors.has(real)) {
+					continue;
+				}
+			}
+			if (!(yield* visit(entry.path, depth + 1, options, new Set(ancestors).add(real)))) {
+				return false;
+			}
+		}
+	} catch (reason: unknown) {
+		yield left(fromUnknown(reason, "Unexpected error while reading directory"));
+		return false;
+	}
+	return true;
+}
+
+/**
+ * Recursively walks the directory tree under `root`, yielding every entry lazily.
+ * Directories are yielded before their contents.
+ *
+ * Every directory opened while walking is closed, whether the walk completes, fails or the
+ * consumer stops iterating early.
+ * The stream fails with the first error encountered, e.g. a directory that can not be read.
+ *
+ * @param root Directory to walk.
+ * @param options Walk options.
+ * @returns Stream of the entries under `root`.
+ */
+export const walk = (
+	root: string,
+	options: WalkOptions = {}
+): Stream<NodeFsError, WalkEntry> => ({
+	[Symbol.asyncIterator]: async function* () {
+		let ancestors: ReadonlySet<string> = new Set();
+		if (options.followSymlinks === true) {
+			const real = await realpath(root)();
+			if (isLeft(real)) {
+				yield real;
+				return;
+			}
+			ancestors = new Set([real.right]);
+		}
+		yield* visit(root, 1, options, ancestors);
+	}
+});
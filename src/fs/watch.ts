@@ -0,0 +1,165 @@
+import {
+	FSWatcher,
+	PathLike,
+	watch as fsWatch
+} from 'node:fs';
+import {
+	on
+} from 'node:events';
+import path from 'node:path';
+import {
+	Either,
+	left,
+	right
+} from 'fp-ts/lib/Either';
+import {
+	tryCatch
+} from 'fp-ts/lib/IOEither';
+import {
+	TaskEither,
+	fromIOEither
+} from 'fp-ts/lib/TaskEither';
+import {
+	NodeFsError,
+	fromUnknown
+} from './errors';
+import {
+	MatchOptions,
+	isMatch
+} from './glob';
+import {
+	Stream,
+	filter
+} from '../stream';
+
+/** The contents of the watched file or of a file in the watched directory changed. */
+export interface Change {
+	readonly _tag: 'Change';
+	/** Name of the file that triggered the event, `null` if the platform does not provide it. */
+	readonly filename: string | null;
+}
+
+/** A file appeared or disappeared. */
+export interface Rename {
+	readonly _tag: 'Rename';
+	/** Name of the file that triggered the event, `null` if the platform does not provide it. */
+	readonly filename: string | null;
+}
+
+/**
+ * Event emitted while watching a file or directory.
+ */
+export type WatchEvent = Change | Rename;
+
+/**
+ * Options of `watch`.
+ */
+export interface WatchOptions {
+	/** Keep the process running as long as files are being watched, defaults to `true`. */
+	readonly persistent?: boolean;
+	/** Watch all subdirectories (only supported on macOS and Windows), defaults to `false`. */
+	readonly recursive?: boolean;
+	/** Character encoding of the filenames, defaults to `'utf8'`. */
+	readonly encoding?: BufferEncoding;
+	/** Stops watching and ends the stream once aborted. */
+	readonly signal?: AbortSignal;
+}
+
+const isAbortError = (
+	reason: unknown
+) => reason instanceof Error && reason.name === 'AbortError';
+
+const toWatchEvent = (
+	[eventType, filename]: [string, string | null]
+): WatchEvent => eventType === 'change'
+	? { _tag: 'Change', filename }
+	: { _tag: 'Rename', filename };
+
+type WatchResult = IteratorResult<Either<NodeFsError, WatchEvent>>;
+
+const toStream = (
+	watcher: FSWatcher,
+	signal?: AbortSignal
+): Stream<NodeFsError, WatchEvent> => {
+	const events = on(watcher, 'change', { signal });
+	let done = false;
+
+	const end = async (): Promise<WatchResult> => {
+		done = true;
+		watcher.close();
+		await events.return?.();
+		return { done: true, value: undefined };
+	};
+
+	const next = async (): Promise<WatchResult> => {
+		if (done) {
+			return end();
+		}
+		try {
+			const result = await events.next();
+			return result.done === true
+				? end()
+				: { done: false, value: right(toWatchEvent(result.value)) };
+		} catch (reason: unknown) {
+			if (isAbortError(reason)) {
+				return end();
+			}
+			await end();
+			return { done: false, value: left(fromUnknown(reason, "Unexpected error while watching")) };
+		}
+	};
+
+	return {
+		[Symbol.asyncIterator]: () => ({ next, return: end })
+	};
+};
+
+/**
+ * Watches for changes on `filename`, where `filename` is either a file or a directory.
+ * Unlike the `fsPromises.watch` async iterator, failing to start watching (e.g. because `filename`
+ * does not exist) is reported by the TaskEither rather than by the first iteration.
+ *
+ * The yielded stream can only be iterated once; breaking out of the iteration or aborting
+ * `options.signal` stops watching and ends the stream.
+ * Use the helpers of the `stream` module to debounce events (`debounce`) and to fold them into state
+ * (`reduce`).
+ * @see https://nodejs.org/api/fs.html#fswatchfilename-options-listener
+ *
+ * @param filename File or directory to watch.
+ * @param options Watch options.
+ * @returns TaskEither that yields the stream of change and rename events, or fails yielding a NodeFsError.
+ */
+export const watch = (
+	filename: PathLike,
+	options: WatchOptions = {}
+): TaskEither<NodeFsError, Stream<NodeFsError, WatchEvent>> => fromIOEither(tryCatch(
+	() => toStream(fsWatch(filename, options), options.signal),
+	(reason: unknown) => fromUnknown(reason, "Unexpected error during watch")
+));
+
+/**
+ * Keeps the events of files with one of the given extensions.
+ * Events without a filename are dropped.
+ *
+ * @param extensions Extensions to keep, including the leading `.` (e.g. `'.ts'`).
+ * @returns A function that filters a stream of watch events.
+ */
+export const filterExtension = (
+	...extensions: ReadonlyArray<string>
+) => filter((event: WatchEvent) => event.filename !== null && extensions.includes(path.extname(event.filename)));
+
+/**
+ * Keeps the events of files matching a glob pattern, relative to the watched directory.
+ * Events without a filename are dropped.
+ *
+ * @param pattern Glob pattern, see `glob.toRegExp` for the supported syntax.
+ * @param options Match options.
+ * @returns A function that filters a stream of watch events.
+ */
+export const filterGlob = (
+	pattern: string,
+	options?: MatchOptions
+) => {
+	const matches = isMatch(pattern, options);
+	return filter((event: WatchEvent) => event.filename !== null && matches(event.filename));
+};
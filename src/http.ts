@@ -0,0 +1,7 @@
+import * as client from './http/client';
+import * as server from './http/server';
+
+export {
+	client,
+	server
+};
@@ -0,0 +1,218 @@
+import * as http from 'node:http';
+import {
+	IncomingHttpHeaders
+} from 'node:http';
+import * as https from 'node:https';
+import {
+	TextDecoder
+} from 'node:util';
+import {
+	Either,
+	left,
+	right,
+	tryCatch
+} from 'fp-ts/lib/Either';
+import {
+	TaskEither
+} from 'fp-ts/lib/TaskEither';
+import {
+	toError
+} from '../error';
+import {
+	TaggedPatterns,
+	foldTagged
+} from '../tagged';
+
+/**
+ * A response with a `2xx` status, whose body has been fully read.
+ */
+export interface Response {
+	readonly status: number;
+	readonly statusText: string;
+	readonly headers: IncomingHttpHeaders;
+	readonly body: Buffer;
+}
+
+/** The request could not be sent or the response could not be received, e.g. `ECONNREFUSED`. */
+export interface NetworkError {
+	readonly _tag: 'NetworkError';
+	readonly error: Error;
+}
+
+/** The server responded with a status outside of the `2xx` range. */
+export interface StatusError {
+	readonly _tag: 'StatusError';
+	readonly status: number;
+	readonly statusText: string;
+	readonly headers: IncomingHttpHeaders;
+	readonly body: Buffer;
+}
+
+/** The response body could not be decoded as the requested type. */
+export interface DecodeError {
+	readonly _tag: 'DecodeError';
+	readonly error: Error;
+}
+
+/** No complete response was received within `timeout` milliseconds. */
+export interface TimeoutError {
+	readonly _tag: 'TimeoutError';
+	readonly timeout: number;
+}
+
+/** The request was cancelled through its `signal`. */
+export interface AbortError {
+	readonly _tag: 'AbortError';
+}
+
+/**
+ * Error yielded by the HTTP client.
+ */
+export type HttpError =
+	| NetworkError
+	| StatusError
+	| DecodeError
+	| TimeoutError
+	| AbortError;
+
+/**
+ * Builds a refinement for the `HttpError` case identified by `tag`.
+ *
+ * @param tag Case to refine to.
+ * @returns A refinement that narrows an `HttpError` to the given case.
+ */
+export const is = <T extends HttpError['_tag']>(
+	tag: T
+) => (
+	e: HttpError
+): e is Extract<HttpError, { _tag: T }> => e._tag === tag;
+
+export const isNetworkError = is('NetworkError');
+export const isStatusError = is('StatusError');
+export const isDecodeError = is('DecodeError');
+export const isTimeoutError = is('TimeoutError');
+export const isAbortError = is('AbortError');
+
+/**
+ * Handlers for every case of `HttpError`.
+ */
+export type Patterns<B> = TaggedPatterns<HttpError, B>;
+
+/**
+ * Exhaustively pattern matches on an `HttpError`.
+ */
+export const fold = <B>(
+	patterns: Patterns<B>
+): ((e: HttpError) => B) => foldTagged<HttpError, B>(patterns);
+
+/**
+ * Options of `request`.
+ */
+export interface RequestOptions extends Omit<http.RequestOptions, 'timeout' | 'signal'> {
+	/** Request body. */
+	readonly body?: string | Uint8Array;
+	/** Fails with a `TimeoutError` if the response is not complete after this many milliseconds. */
+	readonly timeout?: number;
+	/** Cancels the request and fails with an `AbortError` once aborted. */
+	readonly signal?: AbortSignal;
+}
+
+/**
+ * Sends an HTTP or HTTPS request, depending on the protocol of `url`, and reads the whole response.
+ * @see https://nodejs.org/api/http.html#httprequesturl-options-callback
+ *
+ * @param url URL to request.
+ * @param options Request options, such as `method`, `headers` and `body`.
+ * @returns TaskEither that yields the `2xx` response, or fails yielding an HttpError.
+ */
+export const request = (
+	url: string | URL,
+	options: RequestOptions = {}
+): TaskEither<HttpError, Response> => () => new Promise((resolve) => {
+	const { body, timeout, signal, ...requestOptions } = options;
+	if (signal?.aborted === true) {
+		return resolve(left({ _tag: 'AbortError' }));
+	}
+
+	let req: http.ClientRequest;
+	try {
+		const target = typeof url === 'string' ? new URL(url) : url;
+		req = (target.protocol === 'https:' ? https : http).request(target, requestOptions);
+	} catch (reason: unknown) {
+		return resolve(left({ _tag: 'NetworkError', error: toError(reason, "Unexpected error during request") }));
+	}
+
+	let settled = false;
+	const onAbort = () => fail({ _tag: 'AbortError' });
+	const timer = timeout === undefined ? undefined : setTimeout(() => fail({ _tag: 'TimeoutError', timeout }), timeout);
+	signal?.addEventListener('abort', onAbort, { once: true });
+
+	const settle = (result: Either<HttpError, Response>) => {
+		if (!settled) {
+			settled = true;
+			clearTimeout(timer);
+			signal?.removeEventListener('abort', onAbort);
+			resolve(result);
+		}
+	};
+	const fail = (e: HttpError) => {
+		settle(left(e));
+		req.destroy();
+	};
+
+	req.on('error', (error: Error) => settle(left({ _tag: 'NetworkError', error })));
+	req.on('response', (res: http.IncomingMessage) => {
+		const chunks: Array<Buffer> = [];
+		res.on('data', (chunk: Buffer) => chunks.push(chunk));
+		res.on('error', (error: Error) => settle(left({ _tag: 'NetworkError', error })));
+		res.on('end', () => {
+			const status = res.statusCode ?? 0;
+			const response = {
+				status,
+				statusText: res.statusMessage ?? '',
+				headers: res.headers,
+				body: Buffer.concat(chunks)
+			};
+			settle(status >= 200 && status < 300 ? right(response) : left({ _tag: 'StatusError', ...response }));
+		});
+	});
+	req.end(body);
+});
+
+/**
+ * Decodes the body of a response as text.
+ *
+ * @param response Response to decode.
+ * @param encoding Encoding of the body, defaults to `'utf-8'`.
+ * @returns Either the text of the body, or a DecodeError if the body is not valid in `encoding`.
+ */
+export const text = (
+	response: Response,
+	encoding = 'utf-8'
+): Either<HttpError, string> => tryCatch(
+	() => new TextDecoder(encoding, { fatal: true }).decode(response.body),
+	(reason: unknown) => ({ _tag: 'DecodeError', error: toError(reason, "Unexpected error decoding text") })
+);
+
+/**
+ * Decodes the body of a response as JSON.
+ *
+ * @param response Response to decode.
+ * @returns Either the parsed body, or a DecodeError if the body is not valid UTF-8 encoded JSON.
+ */
+export const json = (
+	response: Response
+): Either<HttpError, unknown> => tryCatch(
+	() => JSON.parse(new TextDecoder('utf-8', { fatal: true }).decode(response.body)),
+	(reason: unknown) => ({ _tag: 'DecodeError', error: toError(reason, "Unexpected error decoding JSON") })
+);
+
+/**
+ * Yields the raw body of a response.
+ *
+ * @param response Response to read.
+ * @returns Either the body as a Buffer.
+ */
+export const buffer = (
+	response: Response
+): Either<HttpError, Buffer> => right(response.body);
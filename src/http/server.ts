@@ -0,0 +1,348 @@
+import * as http from 'node:http';
+import {
+	IncomingHttpHeaders,
+	OutgoingHttpHeaders
+} from 'node:http';
+import {
+	Either,
+	isLeft,
+	left,
+	right,
+	tryCatch
+} from 'fp-ts/lib/Either';
+import {
+	ReaderTaskEither
+} from 'fp-ts/lib/ReaderTaskEither';
+import {
+	TaskEither
+} from 'fp-ts/lib/TaskEither';
+
+/**
+ * An incoming request, whose body has been fully read.
+ */
+export interface Request {
+	readonly method: string;
+	/** Path of the request URL, without the query string. */
+	readonly path: string;
+	readonly query: URLSearchParams;
+	readonly headers: IncomingHttpHeaders;
+	/** Values of the `:name` segments of the matched route. */
+	readonly params: Readonly<Record<string, string>>;
+	readonly body: Buffer;
+}
+
+/**
+ * Response sent by a handler.
+ */
+export interface Response {
+	readonly status: number;
+	readonly headers?: OutgoingHttpHeaders;
+	readonly body?: string | Uint8Array;
+}
+
+/**
+ * Failure of a handler, sent to the client as a `text/plain` response with the given status.
+ */
+export interface HttpError {
+	readonly status: number;
+	readonly message: string;
+	readonly headers?: OutgoingHttpHeaders;
+}
+
+/**
+ * Request handler.
+ * A `Left` is sent to the client as an error response rather than rejecting.
+ */
+export type Handler = ReaderTaskEither<Request, HttpError, Response>;
+
+/**
+ * Builds an HttpError.
+ *
+ * @param status HTTP status code.
+ * @param message Message sent as the response body, defaults to the standard status text.
+ * @param headers Additional response headers.
+ * @returns The HttpError.
+ */
+export const httpError = (
+	status: number,
+	message: string = http.STATUS_CODES[status] ?? 'Error',
+	headers?: OutgoingHttpHeaders
+): HttpError => ({ status, message, headers });
+
+export const badRequest = (message?: string): HttpError => httpError(400, message);
+export const notFound = (message?: string): HttpError => httpError(404, message);
+export const methodNotAllowed = (allow: ReadonlyArray<string>): HttpError => httpError(405, undefined, { allow: allow.join(', ') });
+export const internalServerError = (message?: string): HttpError => httpError(500, message);
+
+/**
+ * Builds a `text/plain` response.
+ *
+ * @param body Response body.
+ * @param status HTTP status code, defaults to `200`.
+ * @returns The Response.
+ */
+export const text = (
+	body: string,
+	status = 200
+): Response => ({ status, headers: { 'content-type': 'text/plain; charset=utf-8' }, body });
+
+/**
+ * Builds an `application/json` response.
+ *
+ * @param value Value serialized as the response body.
+ * @param status HTTP status code, defaults to `200`.
+ * @returns The Response.
+ */
+export const json = (
+	value: unknown,
+	status = 200
+): Response => ({ status, headers: { 'content-type': 'application/json; charset=utf-8' }, body: JSON.stringify(value) });
+
+/**
+ * Parses the request body as JSON and validates it with `decoder`, e.g. an io-ts codec's `decode`.
+ *
+ * @param decoder Validates the parsed body.
+ * @param onDecodeError Describes a validation failure, sent to the client as the `400` response body.
+ * @returns ReaderTaskEither that yields the decoded body, or fails yielding a `400` HttpError.
+ */
+export const jsonBody = <E, A>(
+	decoder: (u: unknown) => Either<E, A>,
+	onDecodeError: (e: E) => string = () => 'Invalid request body'
+): ReaderTaskEither<Request, HttpError, A> => (req) => async () => {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(req.body.toString('utf8'));
+	} catch (reason: unknown) {
+		return left(badRequest(reason instanceof Error ? reason.message : 'Invalid JSON'));
+	}
+	const decoded = decoder(parsed);
+	return isLeft(decoded) ? left(badRequest(onDecodeError(decoded.left))) : decoded;
+};
+
+/**
+ * A handler bound to a method and path pattern.
+ */
+export interface Route {
+	readonly method: string;
+	readonly pattern: string;
+	readonly handler: Handler;
+}
+
+/**
+ * Binds a handler to a method and path pattern.
+ * Pattern segments starting with `:` match any single path segment and are made available in
+ * `Request.params`, e.g. `/users/:id`.
+ *
+ * @param method HTTP method, e.g. `'GET'`.
+ * @param pattern Path pattern.
+ * @param handler Handler of the matching requests.
+ * @returns The Route.
+ */
+export const route = (
+	method: string,
+	pattern: string,
+	handler: Handler
+): Route => ({ method: method.toUpperCase(), pattern, handler });
+
+const decodeSegment = (
+	segment: string
+): Either<HttpError, string> => tryCatch(
+	() => decodeURIComponent(segment),
+	() => badRequest(`Malformed path segment: ${segment}`)
+);
+
+/**
+ * Matches a path against a pattern, yielding the decoded parameters, or `undefined` if the path
+ * does not match. Fails with `400` if a parameter is not validly percent-encoded.
+ */
+const matchPattern = (
+	pattern: string,
+	path: string
+): Either<HttpError, Record<string, string>> | undefined => {
+	const patternSegments = pattern.split('/');
+	const pathSegments = path.split('/');
+	if (patternSegments.length !== pathSegments.length) {
+		return undefined;
+	}
+	const params: Record<string, string> = {};
+	for (let i = 0; i < patternSegments.length; i++) {
+		if (patternSegments[i].startsWith(':')) {
+			const value = decodeSegment(pathSegments[i]);
+			if (isLeft(value)) {
+				return value;
+			}
+			params[patternSegments[i].slice(1)] = value.right;
+		} else if (patternSegments[i] !== pathSegments[i]) {
+			return undefined;
+		}
+	}
+	return right(params);
+};
+
+/**
+ * Dispatches requests to the first route matching their method and path.
+ * Fails with `404` if no route matches the path, and with `405` if routes match the path but not
+ * the method.
+ *
+ * @param routes Routes, tried in order.
+ * @returns The Handler dispatching to `routes`.
+ */
+export const router = (
+	routes: ReadonlyArray<Route>
+): Handler => (req) => {
+	const allowed: Array<string> = [];
+	for (const { method, pattern, handler } of routes) {
+		const params = matchPattern(pattern, req.path);
+		if (params !== undefined) {
+			if (method === req.method) {
+				return isLeft(params)
+					? async () => params
+					: handler({ ...req, params: { ...req.params, ...params.right } });
+			}
+			allowed.push(method);
+		}
+	}
+	return async () => left(allowed.length === 0 ? notFound() : methodNotAllowed(allowed));
+};
+
+const readBody = (
+	req: http.IncomingMessage
+): Promise<Buffer> => new Promise((resolve, reject) => {
+	const chunks: Array<Buffer> = [];
+	req.on('data', (chunk: Buffer) => chunks.push(chunk));
+	req.on('end', () => resolve(Buffer.concat(chunks)));
+	req.on('error', reject);
+});
+
+const send = (
+	res: http.ServerResponse,
+	{ status, headers, body }: Response
+) => {
+	res.writeHead(status, headers);
+	res.end(body);
+};
+
+const sendError = (
+	res: http.ServerResponse,
+	{ status, message, headers }: HttpError
+) => send(res, { status, headers: { 'content-type': 'text/plain; charset=utf-8', ...headers }, body: message });
+
+/**
+ * Sends the outcome of a handler. If it cannot be sent, e.g. because the handler returned an
+ * invalid status code or header value, a `500` response is sent instead, or the connection is
+ * destroyed if the headers were already sent.
+ */
+const respond = (
+	res: http.ServerResponse,
+	result: Either<HttpError, Response>
+): void => {
+	try {
+		if (isLeft(result)) {
+			sendError(res, result.left);
+		} else {
+			send(res, result.right);
+		}
+	} catch {
+		if (res.headersSent) {
+			res.destroy();
+		} else {
+			sendError(res, internalServerError());
+		}
+	}
+};
+
+/**
+ * Adapts a handler to a `request` listener of `http.createServer` or `https.createServer`.
+ * A `Left`, as well as an unexpected rejection of the handler or a Response that cannot be sent,
+ * is sent as an error response.
+ * @see https://nodejs.org/api/http.html#event-request
+ *
+ * @param handler Handler of every request.
+ * @returns The request listener.
+ */
+export const toRequestListener = (
+	handler: Handler
+) => (
+	req: http.IncomingMessage,
+	res: http.ServerResponse
+): void => {
+	readBody(req)
+		.then((body) => {
+			// Prefixed rather than resolved against a base, which would take `//users` for a host.
+			const url = new URL(`http://localhost${req.url ?? '/'}`);
+			return handler({
+				method: req.method ?? 'GET',
+				path: url.pathname,
+				query: url.searchParams,
+				headers: req.headers,
+				params: {},
+				body
+			})();
+		})
+		.then(
+			(result) => respond(res, result),
+			() => respond(res, left(internalServerError()))
+		)
+		.catch(() => res.destroy());
+};
+
+/** The server could not start listening, e.g. `EADDRINUSE`. */
+export interface ListenError {
+	readonly _tag: 'ListenError';
+	readonly error: Error;
+}
+
+/** The server could not be closed, e.g. because it was not listening. */
+export interface CloseError {
+	readonly _tag: 'CloseError';
+	readonly error: Error;
+}
+
+/**
+ * Error yielded while starting or stopping a server.
+ */
+export type ServerError = ListenError | CloseError;
+
+/**
+ * Options of `listen`.
+ */
+export interface ListenOptions {
+	/** Port to listen on, defaults to `0` (an arbitrary unused port). */
+	readonly port?: number;
+	/** Host to listen on, defaults to all interfaces. */
+	readonly host?: string;
+}
+
+/**
+ * Creates an HTTP server serving `handler` and starts listening.
+ * @see https://nodejs.org/api/http.html#httpcreateserveroptions-requestlistener
+ *
+ * @param handler Handler of every request.
+ * @param options Listen options.
+ * @returns TaskEither that yields the listening server, or fails yielding a ServerError.
+ */
+export const listen = (
+	handler: Handler,
+	options: ListenOptions = {}
+): TaskEither<ServerError, http.Server> => () => new Promise((resolve) => {
+	const server = http.createServer(toRequestListener(handler));
+	const onError = (error: Error) => resolve(left({ _tag: 'ListenError', error }));
+	server.once('error', onError);
+	server.listen(options.port ?? 0, options.host, () => {
+		server.off('error', onError);
+		resolve(right(server));
+	});
+});
+
+/**
+ * Stops the server from accepting new connections and waits for the open ones to end.
+ * @see https://nodejs.org/api/http.html#serverclosecallback
+ *
+ * @param server Server to close.
+ * @returns TaskEither that yields void once the server is closed, or fails yielding a ServerError.
+ */
+export const close = (
+	server: http.Server
+): TaskEither<ServerError, void> => () => new Promise((resolve) => {
+	server.close((error?: Error) => resolve(error === undefined ? right(undefined) : left({ _tag: 'CloseError', error })));
+});
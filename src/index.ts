@@ -1,7 +1,53 @@
-import { fsPromises } from "./fs";
+import * as childProcess from './childProcess';
+import {
+	fsAtomic,
+	fsCallbacks,
+	fsDryRun,
+	fsErrors,
+	fsFileHandle,
+	fsFileSystem,
+	fsGlob,
+	fsHash,
+	fsJson,
+	fsLock,
+	fsMemory,
+	fsPromises,
+	fsResolve,
+	fsStats,
+	fsStream,
+	fsSync,
+	fsSyncDir,
+	fsTemp,
+	fsWalk,
+	fsWatch
+} from "./fs";
+import * as http from './http';
 import * as path from './path';
+import * as stream from './stream';
 
 export {
+	childProcess,
+	fsAtomic,
+	fsCallbacks,
+	fsDryRun,
+	fsErrors,
+	fsFileHandle,
+	fsFileSystem,
+	fsGlob,
+	fsHash,
+	fsJson,
+	fsLock,
+	fsMemory,
 	fsPromises,
-	path
+	fsResolve,
+	fsStats,
+	fsStream,
+	fsSync,
+	fsSyncDir,
+	fsTemp,
+	fsWalk,
+	fsWatch,
+	http,
+	path,
+	stream
 };
@@ -1,15 +1,120 @@
 import path from 'path';
+import {
+	Either,
+	left,
+	right
+} from 'fp-ts/lib/Either';
 import {
 	IOEither,
 	tryCatch
 } from 'fp-ts/lib/IOEither';
+import {
+	toError
+} from './error';
+import * as pure from './path/pure';
 
-type Path = string;
+export type Path = string;
 
-const toError = (
-	error: unknown,
-	defaultMessage: string
-) => error instanceof Error ? error : Error(defaultMessage);
+const basenameOf = (
+	platform: path.PlatformPath
+) => (
+	p: string,
+	ext?: string
+): IOEither<Error, Path> => tryCatch(
+	() => platform.basename(p, ext),
+	(reason: unknown) => toError(reason, "Unexpected error getting basename")
+);
+
+const dirnameOf = (
+	platform: path.PlatformPath
+) => (
+	p: string
+): IOEither<Error, Path> => tryCatch(
+	() => platform.dirname(p),
+	(reason: unknown) => toError(reason, "Unexpected error getting dirname")
+);
+
+const extnameOf = (
+	platform: path.PlatformPath
+) => (
+	p: string
+): IOEither<Error, string> => tryCatch(
+	() => platform.extname(p),
+	(reason: unknown) => toError(reason, "Unexpected error getting extname")
+);
+
+const formatOf = (
+	platform: path.PlatformPath
+) => (
+	po: path.FormatInputPathObject
+): IOEither<Error, Path> => tryCatch(
+	() => platform.format(po),
+	(reason: unknown) => toError(reason, "Unexpected error formatting path object")
+);
+
+const isAbsoluteOf = (
+	platform: path.PlatformPath
+) => (
+	p: string
+): IOEither<Error, boolean> => tryCatch(
+	() => platform.isAbsolute(p),
+	(reason: unknown) => toError(reason, "Unexpected error checking for absolute path")
+);
+
+const joinOf = (
+	platform: path.PlatformPath
+) => (
+	...paths: string[]
+): IOEither<Error, Path> => tryCatch(
+	() => platform.join(...paths),
+	(reason: unknown) => toError(reason, "Unexpected error joining path segments")
+);
+
+const normalizeOf = (
+	platform: path.PlatformPath
+) => (
+	p: string
+): IOEither<Error, Path> => tryCatch(
+	() => platform.normalize(p),
+	(reason: unknown) => toError(reason, "Unexpected error normalizing path")
+);
+
+const parseOf = (
+	platform: path.PlatformPath
+) => (
+	p: string
+): IOEither<Error, path.ParsedPath> => tryCatch(
+	() => platform.parse(p),
+	(reason: unknown) => toError(reason, "Unexpected error parsing path")
+);
+
+const relativeOf = (
+	platform: path.PlatformPath
+) => (
+	from: string,
+	to: string
+): IOEither<Error, Path> => tryCatch(
+	() => platform.relative(from, to),
+	(reason: unknown) => toError(reason, "Unexpected error solving the relative path")
+);
+
+const resolveOf = (
+	platform: path.PlatformPath
+) => (
+	...paths: string[]
+): IOEither<Error, Path> => tryCatch(
+	() => platform.resolve(...paths),
+	(reason: unknown) => toError(reason, "Unexpected error resolving path segments")
+);
+
+const toNamespacedPathOf = (
+	platform: path.PlatformPath
+) => (
+	p: string
+): IOEither<Error, Path> => tryCatch(
+	() => platform.toNamespacedPath(p),
+	(reason: unknown) => toError(reason, "Unexpected error getting namespaced path")
+);
 
 /**
  * Similar to the Unix basename command.
@@ -20,13 +125,7 @@ const toError = (
  * @param ext An optional file extension to remove from the result.
  * @returns IOEither that yields the last portion of a path or fails yielding an error.
  */
-export const basename = (
-	p: string,
-	ext?: string
-): IOEither<Error, Path> => tryCatch(
-	() => path.basename(p, ext),
-	(reason: unknown) => toError(reason, "Unexpected error getting basename")
-);
+export const basename = basenameOf(path);
 
 /**
  * Similar to the Unix dirname command.
@@ -36,12 +135,7 @@ export const basename = (
  * @param p The path to evaluate.
  * @returns IOEither that yields the directory name of a path or fails yielding an error.
  */
-export const dirname = (
-	p: string
-): IOEither<Error, Path> => tryCatch(
-	() => path.dirname(p),
-	(reason: unknown) => toError(reason, "Unexpected error getting dirname")
-);
+export const dirname = dirnameOf(path);
 
 /**
  * Gets the extension of the path,
@@ -54,12 +148,7 @@ export const dirname = (
  * @param p The path to evaluate.
  * @returns IOEither that yields the extension of the path or fails yielding an error.
  */
-export const extname = (
-	p: string
-): IOEither<Error, string> => tryCatch(
-	() => path.extname(p),
-	(reason: unknown) => toError(reason, "Unexpected error getting extname")
-);
+export const extname = extnameOf(path);
 
 /**
  * This is the opposite of path.parse().
@@ -71,12 +160,7 @@ export const extname = (
  * @param po JavaScript object with the properties: dir, root, base, name, and ext.
  * @returns IOEither that yields the path string from an object or fails yielding an error.
  */
-export const format = (
-	po: path.FormatInputPathObject
-): IOEither<Error, Path> => tryCatch(
-	() => path.format(po),
-	(reason: unknown) => toError(reason, "Unexpected error formatting path object")
-);
+export const format = formatOf(path);
 
 /**
  * Determines if path is an absolute path.
@@ -86,12 +170,7 @@ export const format = (
  * @param p Path to test.
  * @returns IOEither that yields a boolean representing if the path is absolute or fails yielding an error.
  */
-export const isAbsolute = (
-	p: string
-): IOEither<Error, boolean> => tryCatch(
-	() => path.isAbsolute(p),
-	(reason: unknown) => toError(reason, "Unexpected error checking for absolute path")
-);
+export const isAbsolute = isAbsoluteOf(path);
 
 /**
  * Join all arguments together using the platform-specific separator as a delimiter,
@@ -104,12 +183,7 @@ export const isAbsolute = (
  * @param paths A sequence of path segments.
  * @returns IOEither that yields the joined path or fails yielding an error.
  */
-export const join = (
-	...paths: string[]
-): IOEither<Error, Path> => tryCatch(
-	() => path.join(...paths),
-	(reason: unknown) => toError(reason, "Unexpected error joining path segments")
-);
+export const join = joinOf(path);
 
 /**
  * Normalize a string path, reducing '..' and '.' parts.
@@ -123,12 +197,7 @@ export const join = (
  * @param p String path to normalize.
  * @returns IOEither that yields the normalized string path or fails yielding an error.
  */
-export const normalize = (
-	p: string
-): IOEither<Error, Path> => tryCatch(
-	() => path.normalize(p),
-	(reason: unknown) => toError(reason, "Unexpected error normalizing path")
-);
+export const normalize = normalizeOf(path);
 
 /**
  * Parse a string path to an object (the opposite of path.format()).
@@ -138,12 +207,7 @@ export const normalize = (
  * @param p Path to evaluate.
  * @returns IOEither that yields an object whose properties represent significant elements of the path or fails yielding an error.
  */
-export const parse = (
-	p: string
-): IOEither<Error, path.ParsedPath> => tryCatch(
-	() => path.parse(p),
-	(reason: unknown) => toError(reason, "Unexpected error parsing path")
-);
+export const parse = parseOf(path);
 
 /**
  * Solve the relative path from {from} to {to} based on the current working directory.
@@ -160,13 +224,7 @@ export const parse = (
  * @param to Destination path.
  * @returns IOEither that yields the relative path from {from} to {to} or fails yielding an error.
  */
-export const relative = (
-	from: string,
-	to: string
-): IOEither<Error, Path> => tryCatch(
-	() => path.relative(from, to),
-	(reason: unknown) => toError(reason, "Unexpected error solving the relative path")
-);
+export const relative = relativeOf(path);
 
 /**
  * Resolves a sequence of paths or path segments into an absolute path.
@@ -184,9 +242,127 @@ export const relative = (
  * @param paths A sequence of path or path segment strings to join.
  * @returns IOEither that yields an absolute path or fails yielding an error.
  */
-export const resolve = (
-	...paths: string[]
-): IOEither<Error, Path> => tryCatch(
-	() => path.resolve(...paths),
-	(reason: unknown) => toError(reason, "Unexpected error resolving path segments")
-);
+export const resolve = resolveOf(path);
+
+/**
+ * The platform-specific path segment separator, `\` on Windows and `/` on POSIX.
+ * @see https://nodejs.org/api/path.html#pathsep
+ */
+export const sep = path.sep;
+
+/**
+ * The platform-specific path delimiter, `;` on Windows and `:` on POSIX.
+ * @see https://nodejs.org/api/path.html#pathdelimiter
+ */
+export const delimiter = path.delimiter;
+
+/**
+ * On Windows, returns an equivalent namespace-prefixed path, e.g. `\\?\C:\dir`.
+ * On POSIX, and for paths that can not be namespaced, the path is returned unchanged.
+ * @see https://nodejs.org/api/path.html#pathtonamespacedpathpath
+ * 
+ * @param p Path to convert.
+ * @returns IOEither that yields the namespaced path or fails yielding an error.
+ */
+export const toNamespacedPath = toNamespacedPathOf(path);
+
+/**
+ * The functions of this module, bound to the conventions of a specific platform.
+ */
+export interface PathModule {
+	readonly sep: string;
+	readonly delimiter: string;
+	readonly basename: typeof basename;
+	readonly dirname: typeof dirname;
+	readonly extname: typeof extname;
+	readonly format: typeof format;
+	readonly isAbsolute: typeof isAbsolute;
+	readonly join: typeof join;
+	readonly normalize: typeof normalize;
+	readonly parse: typeof parse;
+	readonly relative: typeof relative;
+	readonly resolve: typeof resolve;
+	readonly toNamespacedPath: typeof toNamespacedPath;
+}
+
+const fromPlatformPath = (
+	platform: path.PlatformPath
+): PathModule => ({
+	sep: platform.sep,
+	delimiter: platform.delimiter,
+	basename: basenameOf(platform),
+	dirname: dirnameOf(platform),
+	extname: extnameOf(platform),
+	format: formatOf(platform),
+	isAbsolute: isAbsoluteOf(platform),
+	join: joinOf(platform),
+	normalize: normalizeOf(platform),
+	parse: parseOf(platform),
+	relative: relativeOf(platform),
+	resolve: resolveOf(platform),
+	toNamespacedPath: toNamespacedPathOf(platform)
+});
+
+/**
+ * The functions of this module following POSIX conventions, whatever the host platform.
+ * @see https://nodejs.org/api/path.html#pathposix
+ */
+export const posix = fromPlatformPath(path.posix);
+
+/**
+ * The functions of this module following Windows conventions, whatever the host platform,
+ * e.g. to manipulate Windows paths from Linux.
+ * @see https://nodejs.org/api/path.html#pathwin32
+ */
+export const win32 = fromPlatformPath(path.win32);
+
+/** The path leads outside of the base directory it must stay within. */
+export interface PathEscapeError {
+	readonly _tag: 'PathEscapeError';
+	readonly base: pure.AbsolutePath;
+	readonly path: string;
+}
+
+/**
+ * Tests whether `target` is `base` itself or lies under it, both being normalized absolute paths.
+ *
+ * @param base Directory to stay within.
+ * @param target Path to test.
+ * @returns `true` if `target` does not escape `base`.
+ */
+export const isWithin = (
+	base: pure.AbsolutePath,
+	target: pure.AbsolutePath
+): boolean => {
+	const rel = pure.relative(base, target);
+	return rel === '' || (rel !== '..' && !rel.startsWith(`..${path.sep}`) && !path.isAbsolute(rel));
+};
+
+/**
+ * Resolves a path supplied by an untrusted party against a base directory, rejecting it if it
+ * leads outside of that directory, e.g. `../../etc/passwd` or `/etc/passwd`.
+ * The check is lexical, a symbolic link under `base` may still lead outside of it; use
+ * `fsResolve.resolveWithin` to follow links.
+ *
+ * @param base Directory the path must stay within, resolved against the current working directory.
+ * @param userPath Path to resolve against `base`.
+ * @returns Either the absolute path, or a PathEscapeError if it is not `base` or under it.
+ */
+export const resolveWithin = (
+	base: string,
+	userPath: string
+): Either<PathEscapeError, pure.AbsolutePath> => {
+	const root = pure.resolve(base);
+	const target = pure.resolve(root, userPath);
+	return isWithin(root, target)
+		? right(target)
+		: left({ _tag: 'PathEscapeError', base: root, path: userPath });
+};
+
+/**
+ * Pure variants of the functions of this module, returning plain values, and branded path types
+ * such as `AbsolutePath` with their smart constructors.
+ */
+export {
+	pure
+};
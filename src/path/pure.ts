@@ -0,0 +1,197 @@
+import path from 'node:path';
+import {
+	Either,
+	left,
+	right
+} from 'fp-ts/lib/Either';
+import {
+	Refinement
+} from 'fp-ts/lib/Refinement';
+
+interface AbsolutePathBrand {
+	readonly AbsolutePath: unique symbol;
+}
+
+interface RelativePathBrand {
+	readonly RelativePath: unique symbol;
+}
+
+interface NormalizedPathBrand {
+	readonly NormalizedPath: unique symbol;
+}
+
+/** A path starting from the root of the file system, e.g. `/usr/lib` or `C:\Windows`. */
+export type AbsolutePath = string & AbsolutePathBrand;
+
+/** A path relative to another directory, e.g. `lib/index.js`. */
+export type RelativePath = string & RelativePathBrand;
+
+/** A path without `.` or `..` segments, other than leading `..` segments of a relative path, or repeated separators. */
+export type NormalizedPath = string & NormalizedPathBrand;
+
+/** The string given to a smart constructor is not a valid path of the requested kind. */
+export interface InvalidPathError {
+	readonly _tag: 'InvalidPathError';
+	readonly path: string;
+	readonly message: string;
+}
+
+const invalidPath = (
+	p: string,
+	message: string
+): Either<InvalidPathError, never> => left({ _tag: 'InvalidPathError', path: p, message });
+
+/**
+ * Refines a string to an `AbsolutePath`.
+ * @see https://nodejs.org/api/path.html#pathisabsolutepath
+ */
+export const isAbsolute: Refinement<string, AbsolutePath> = (p): p is AbsolutePath => path.isAbsolute(p);
+
+/**
+ * Refines a string to a `RelativePath`.
+ * The empty string is not a relative path.
+ */
+export const isRelative: Refinement<string, RelativePath> = (p): p is RelativePath => p !== '' && !path.isAbsolute(p);
+
+/**
+ * Validates a string as an `AbsolutePath`.
+ *
+ * @param p String to validate.
+ * @returns Either the AbsolutePath, or an InvalidPathError if `p` is relative or contains a null byte.
+ */
+export const absolutePath = (
+	p: string
+): Either<InvalidPathError, AbsolutePath> => p.includes('\0')
+	? invalidPath(p, 'Path contains a null byte')
+	: isAbsolute(p) ? right(p) : invalidPath(p, 'Path is not absolute');
+
+/**
+ * Validates a string as a `RelativePath`.
+ *
+ * @param p String to validate.
+ * @returns Either the RelativePath, or an InvalidPathError if `p` is empty, absolute or contains a
+ * null byte.
+ */
+export const relativePath = (
+	p: string
+): Either<InvalidPathError, RelativePath> => p.includes('\0')
+	? invalidPath(p, 'Path contains a null byte')
+	: isRelative(p) ? right(p) : invalidPath(p, 'Path is not relative');
+
+/**
+ * Normalizes a path, reducing `..` and `.` segments and repeated separators.
+ * Whether the path is absolute or relative is preserved.
+ * @see https://nodejs.org/api/path.html#pathnormalizepath
+ *
+ * @param p Path to normalize.
+ * @returns The normalized path.
+ */
+export function normalize(p: AbsolutePath): AbsolutePath & NormalizedPath;
+export function normalize(p: RelativePath): RelativePath & NormalizedPath;
+export function normalize(p: string): NormalizedPath;
+export function normalize(p: string): NormalizedPath {
+	return path.normalize(p) as NormalizedPath;
+}
+
+/**
+ * Joins path segments with the platform-specific separator, then normalizes the result.
+ * The result is absolute if the first segment is.
+ * @see https://nodejs.org/api/path.html#pathjoinpaths
+ *
+ * @param first First segment.
+ * @param rest Following segments.
+ * @returns The joined path.
+ */
+export function join(first: AbsolutePath, ...rest: ReadonlyArray<string>): AbsolutePath & NormalizedPath;
+export function join(first: string, ...rest: ReadonlyArray<string>): NormalizedPath;
+export function join(first: string, ...rest: ReadonlyArray<string>): NormalizedPath {
+	return path.join(first, ...rest) as NormalizedPath;
+}
+
+/**
+ * Resolves a sequence of paths into an absolute path, processing them from right to left until an
+ * absolute path is constructed, and falling back to the current working directory.
+ * The only function of this module that depends on the environment.
+ * @see https://nodejs.org/api/path.html#pathresolvepaths
+ *
+ * @param paths Paths or path segments to resolve.
+ * @returns The normalized absolute path.
+ */
+export const resolve = (
+	...paths: ReadonlyArray<string>
+): AbsolutePath & NormalizedPath => path.resolve(...paths) as AbsolutePath & NormalizedPath;
+
+/**
+ * Computes the path leading from `from` to `to`, both being absolute.
+ * The result is absolute when no relative path exists, i.e. across Windows drives, and empty when
+ * both paths are the same.
+ * @see https://nodejs.org/api/path.html#pathrelativefrom-to
+ *
+ * @param from Source path.
+ * @param to Destination path.
+ * @returns The path from `from` to `to`.
+ */
+export const relative = (
+	from: AbsolutePath,
+	to: AbsolutePath
+): string => path.relative(from, to);
+
+/**
+ * Gets the last segment of a path, ignoring trailing separators.
+ * @see https://nodejs.org/api/path.html#pathbasenamepath-ext
+ *
+ * @param p Path to evaluate.
+ * @param ext Extension to remove from the result.
+ * @returns The last segment of the path.
+ */
+export const basename = (
+	p: string,
+	ext?: string
+): string => path.basename(p, ext);
+
+/**
+ * Gets the directory of a path, ignoring trailing separators.
+ * The directory of an absolute path is absolute.
+ * @see https://nodejs.org/api/path.html#pathdirnamepath
+ *
+ * @param p Path to evaluate.
+ * @returns The directory of the path.
+ */
+export function dirname(p: AbsolutePath): AbsolutePath;
+export function dirname(p: string): string;
+export function dirname(p: string): string {
+	return path.dirname(p);
+}
+
+/**
+ * Gets the extension of the last segment of a path, from its last `.`, or the empty string.
+ * @see https://nodejs.org/api/path.html#pathextnamepath
+ *
+ * @param p Path to evaluate.
+ * @returns The extension of the path.
+ */
+export const extname = (
+	p: string
+): string => path.extname(p);
+
+/**
+ * Splits a path into its root, directory, base name, name and extension.
+ * @see https://nodejs.org/api/path.html#pathparsepath
+ *
+ * @param p Path to evaluate.
+ * @returns The elements of the path.
+ */
+export const parse = (
+	p: string
+): path.ParsedPath => path.parse(p);
+
+/**
+ * Builds a path from its elements, the opposite of `parse`.
+ * @see https://nodejs.org/api/path.html#pathformatpathobject
+ *
+ * @param po Elements of the path.
+ * @returns The path.
+ */
+export const format = (
+	po: path.FormatInputPathObject
+): string => path.format(po);
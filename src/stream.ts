@@ -0,0 +1,222 @@
+import {
+	Either,
+	isLeft,
+	left,
+	right
+} from 'fp-ts/lib/Either';
+import {
+	Predicate
+} from 'fp-ts/lib/Predicate';
+import {
+	Refinement
+} from 'fp-ts/lib/Refinement';
+import {
+	TaskEither
+} from 'fp-ts/lib/TaskEither';
+import {
+	StringDecoder
+} from 'node:string_decoder';
+
+/**
+ * A lazy, pull-based sequence of values that can fail.
+ * Every element is an `Either`; a `Left` is always the last element, the stream ends after it.
+ */
+export type Stream<E, A> = AsyncIterable<Either<E, A>>;
+
+/**
+ * Lifts an `AsyncIterable` into a `Stream`, turning a rejection while iterating into a final `Left`.
+ *
+ * @param iterable Source of the values.
+ * @param onRejected Maps the rejection reason to the error type of the stream.
+ * @returns Stream of the values of `iterable`.
+ */
+export const fromAsyncIterable = <E, A>(
+	iterable: AsyncIterable<A>,
+	onRejected: (reason: unknown) => E
+): Stream<E, A> => ({
+	[Symbol.asyncIterator]: async function* () {
+		try {
+			for await (const a of iterable) {
+				yield right(a);
+			}
+		} catch (reason: unknown) {
+			yield left(onRejected(reason));
+		}
+	}
+});
+
+/**
+ * Transforms every value of a stream, leaving failures untouched.
+ *
+ * @param f Function applied to every value.
+ * @returns A function that maps a stream.
+ */
+export const map = <A, B>(
+	f: (a: A) => B
+) => <E>(
+	fa: Stream<E, A>
+): Stream<E, B> => ({
+	[Symbol.asyncIterator]: async function* () {
+		for await (const ea of fa) {
+			yield isLeft(ea) ? ea : right(f(ea.right));
+		}
+	}
+});
+
+/**
+ * Keeps the values of a stream that satisfy the predicate, failures are always kept.
+ *
+ * @param predicate Predicate a value has to satisfy to be kept.
+ * @returns A function that filters a stream.
+ */
+export function filter<A, B extends A>(refinement: Refinement<A, B>): <E>(fa: Stream<E, A>) => Stream<E, B>;
+export function filter<A>(predicate: Predicate<A>): <E>(fa: Stream<E, A>) => Stream<E, A>;
+export function filter<A>(predicate: Predicate<A>) {
+	return <E>(fa: Stream<E, A>): Stream<E, A> => ({
+		[Symbol.asyncIterator]: async function* () {
+			for await (const ea of fa) {
+				if (isLeft(ea) || predicate(ea.right)) {
+					yield ea;
+				}
+			}
+		}
+	});
+}
+
+/**
+ * Decodes a stream of chunks into a stream of lines, without their line terminators (`\n` or `\r\n`).
+ * Multi-byte characters split across chunks are decoded correctly.
+ * A trailing line without terminator is emitted once the source ends.
+ *
+ * @param encoding Encoding of the `Buffer` chunks, defaults to `'utf8'`.
+ * @returns A function that splits a stream of chunks into lines.
+ */
+export const lines = (
+	encoding: BufferEncoding = 'utf8'
+) => <E>(
+	fa: Stream<E, string | Buffer>
+): Stream<E, string> => ({
+	[Symbol.asyncIterator]: async function* () {
+		const decoder = new StringDecoder(encoding);
+		let buffered = '';
+		for await (const ea of fa) {
+			if (isLeft(ea)) {
+				yield ea;
+				return;
+			}
+			buffered += typeof ea.right === 'string' ? ea.right : decoder.write(ea.right);
+			const complete = buffered.split(/\r?\n/);
+			buffered = complete.pop() as string;
+			for (const line of complete) {
+				yield right(line);
+			}
+		}
+		buffered += decoder.end();
+		if (buffered.length > 0) {
+			yield right(buffered);
+		}
+	}
+});
+
+const elapsed = Symbol('elapsed');
+
+/**
+ * Only emits a value once `ms` milliseconds have passed without the source emitting another value.
+ * A pending value is emitted before a failure or the end of the source.
+ *
+ * @param ms Quiet period in milliseconds.
+ * @returns A function that debounces a stream.
+ */
+export const debounce = (
+	ms: number
+) => <E, A>(
+	fa: Stream<E, A>
+): Stream<E, A> => ({
+	[Symbol.asyncIterator]: async function* () {
+		const iterator = fa[Symbol.asyncIterator]();
+		let pending = iterator.next();
+		let latest: { readonly value: A } | undefined = undefined;
+		let timer: NodeJS.Timeout | undefined = undefined;
+
+		try {
+			while (true) {
+				let next: IteratorResult<Either<E, A>> | typeof elapsed;
+				if (latest === undefined) {
+					next = await pending;
+				} else {
+					const { value } = latest;
+					next = await Promise.race([
+						pending,
+						new Promise<typeof elapsed>((resolve) => { timer = setTimeout(() => resolve(elapsed), ms); })
+					]);
+					clearTimeout(timer);
+					if (next === elapsed) {
+						yield right(value);
+						latest = undefined;
+						continue;
+					}
+				}
+
+				if (next.done === true || isLeft(next.value)) {
+					if (latest !== undefined) {
+						yield right(latest.value);
+					}
+					if (next.done !== true) {
+						yield next.value;
+					}
+					return;
+				} else {
+					latest = { value: next.value.right };
+					pending = iterator.next();
+				}
+			}
+		} finally {
+			clearTimeout(timer);
+			await iterator.return?.();
+		}
+	}
+});
+
+/**
+ * Folds every value of a stream into a single result.
+ * Stops consuming the stream at the first failure.
+ *
+ * @param b Initial state.
+ * @param f Reducer producing the next state from the current state and a value.
+ * @returns A function that takes a stream and returns a TaskEither that yields the final state once
+ * the stream ends, or fails yielding the error of the stream.
+ */
+export const reduce = <A, B>(
+	b: B,
+	f: (b: B, a: A) => B
+) => <E>(
+	fa: Stream<E, A>
+): TaskEither<E, B> => async () => {
+	let state = b;
+	for await (const ea of fa) {
+		if (isLeft(ea)) {
+			return ea;
+		}
+		state = f(state, ea.right);
+	}
+	return right(state);
+};
+
+/**
+ * Collects every value of a stream.
+ *
+ * @param fa Stream to collect.
+ * @returns TaskEither that yields the values once the stream ends, or fails yielding the error of the stream.
+ */
+export const toArray = <E, A>(
+	fa: Stream<E, A>
+): TaskEither<E, ReadonlyArray<A>> => async () => {
+	const as: Array<A> = [];
+	for await (const ea of fa) {
+		if (isLeft(ea)) {
+			return ea;
+		}
+		as.push(ea.right);
+	}
+	return right(as);
+};
@@ -0,0 +1,42 @@
+/**
+ * A member of a tagged union, discriminated by its `_tag`.
+ */
+export interface Tagged {
+	readonly _tag: string;
+}
+
+/**
+ * Handlers for every case of the tagged union `T`.
+ */
+export type TaggedPatterns<T extends Tagged, B> = {
+	readonly [K in T['_tag']]: (t: Extract<T, { _tag: K }>) => B
+};
+
+/**
+ * Exhaustively pattern matches on a tagged union.
+ *
+ * @param patterns A handler for every case.
+ * @returns A function that runs the handler for the case of the given value.
+ */
+export const foldTagged = <T extends Tagged, B>(
+	patterns: TaggedPatterns<T, B>
+) => (
+	t: T
+): B => (patterns[t._tag as T['_tag']] as (t: T) => B)(t);
+
+/**
+ * Pattern matches on some cases of a tagged union, falling back to `otherwise` for the rest.
+ *
+ * @param patterns Handlers for the cases of interest.
+ * @param otherwise Handler for every case not in `patterns`.
+ * @returns A function that runs the matching handler for the given value.
+ */
+export const foldTaggedPartial = <T extends Tagged, B>(
+	patterns: Partial<TaggedPatterns<T, B>>,
+	otherwise: (t: T) => B
+) => (
+	t: T
+): B => {
+	const handler = patterns[t._tag as T['_tag']] as ((t: T) => B) | undefined;
+	return handler === undefined ? otherwise(t) : handler(t);
+};